@@ -7,6 +7,7 @@ import Index from "./pages/Index";
 import AdminLogin from "./pages/AdminLogin";
 import AdminDashboard from "./pages/AdminDashboard";
 import PrepDashboard from "./pages/PrepDashboard";
+import OnHandCount from "./pages/OnHandCount";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +23,7 @@ const App = () => (
           <Route path="/admin/login" element={<AdminLogin />} />
           <Route path="/admin" element={<AdminDashboard />} />
           <Route path="/prep" element={<PrepDashboard />} />
+          <Route path="/prep/count" element={<OnHandCount />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,77 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { BatchSettingsValues } from "@/lib/batchSettings";
+
+interface BatchSettingsFieldsProps {
+  idPrefix: string;
+  unit: string;
+  values: BatchSettingsValues;
+  onChange: (values: BatchSettingsValues) => void;
+}
+
+const BatchSettingsFields = ({ idPrefix, unit, values, onChange }: BatchSettingsFieldsProps) => {
+  const update = (changes: Partial<BatchSettingsValues>) => onChange({ ...values, ...changes });
+  const unitLabel = unit.trim() || "units";
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <Label className="text-sm font-medium">Batches (Optional)</Label>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-min-batch`} className="text-xs text-muted-foreground">
+            Minimum batch ({unitLabel})
+          </Label>
+          <Input
+            id={`${idPrefix}-min-batch`}
+            type="number"
+            min={0}
+            step="any"
+            value={values.minBatch}
+            onChange={(e) => update({ minBatch: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-batch-increment`} className="text-xs text-muted-foreground">
+            Batch size ({unitLabel})
+          </Label>
+          <Input
+            id={`${idPrefix}-batch-increment`}
+            type="number"
+            min={0}
+            step="any"
+            value={values.batchIncrement}
+            onChange={(e) => update({ batchIncrement: e.target.value })}
+            placeholder="e.g., 6"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-batch-container`} className="text-xs text-muted-foreground">
+            Container
+          </Label>
+          <Input
+            id={`${idPrefix}-batch-container`}
+            value={values.batchContainer}
+            onChange={(e) => update({ batchContainer: e.target.value })}
+            placeholder="e.g., qt, 1/6 pan"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-batch-container-quantity`} className="text-xs text-muted-foreground">
+            Containers per batch
+          </Label>
+          <Input
+            id={`${idPrefix}-batch-container-quantity`}
+            type="number"
+            min={0}
+            step="any"
+            value={values.batchContainerQuantity}
+            onChange={(e) => update({ batchContainerQuantity: e.target.value })}
+            placeholder="e.g., 1.5"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchSettingsFields;
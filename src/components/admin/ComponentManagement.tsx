@@ -0,0 +1,475 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import type { Database } from "@/integrations/supabase/types";
+import BatchSettingsFields from "./BatchSettingsFields";
+import {
+  EMPTY_BATCH_SETTINGS,
+  fromBatchSettingsValues,
+  toBatchSettingsValues,
+  type BatchSettingsValues,
+} from "@/lib/batchSettings";
+
+type KitchenStation = Database["public"]["Enums"]["kitchen_station"];
+
+interface PrepComponent {
+  id: string;
+  name: string;
+  station: KitchenStation;
+  unit: string;
+  recipe_id: string | null;
+  is_active: boolean;
+  min_batch: number | null;
+  batch_increment: number | null;
+  batch_container: string | null;
+  batch_container_quantity: number | null;
+}
+
+interface Usage {
+  menu_item_id: string;
+  component_id: string;
+  quantity_per_portion: number;
+}
+
+// One dish row in the component form; quantity stays text while editing
+interface UsageRow {
+  menu_item_id: string;
+  quantity: string;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const STATIONS: { value: KitchenStation; label: string }[] = [
+  { value: "grill", label: "Grill" },
+  { value: "saute", label: "Sauté" },
+  { value: "fry", label: "Fry" },
+  { value: "salad", label: "Salad" },
+  { value: "line", label: "Line" },
+];
+
+const ComponentManagement = () => {
+  const { toast } = useToast();
+  const [components, setComponents] = useState<PrepComponent[]>([]);
+  const [usages, setUsages] = useState<Usage[]>([]);
+  const [menuItems, setMenuItems] = useState<Option[]>([]);
+  const [recipes, setRecipes] = useState<Option[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingComponent, setEditingComponent] = useState<PrepComponent | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [station, setStation] = useState<KitchenStation>("grill");
+  const [unit, setUnit] = useState("portions");
+  const [recipeId, setRecipeId] = useState<string | null>(null);
+  const [usageRows, setUsageRows] = useState<UsageRow[]>([]);
+  const [batchSettings, setBatchSettings] = useState<BatchSettingsValues>(EMPTY_BATCH_SETTINGS);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [componentsRes, usagesRes, itemsRes, recipesRes] = await Promise.all([
+        supabase.from("prep_components").select("*").order("station").order("name"),
+        supabase.from("menu_item_components").select("menu_item_id, component_id, quantity_per_portion"),
+        supabase.from("menu_items").select("id, name").eq("is_active", true).order("name"),
+        supabase.from("recipes").select("id, name").order("name"),
+      ]);
+
+      if (componentsRes.error) throw componentsRes.error;
+      if (usagesRes.error) throw usagesRes.error;
+      if (itemsRes.error) throw itemsRes.error;
+      if (recipesRes.error) throw recipesRes.error;
+
+      setComponents(componentsRes.data || []);
+      setUsages(usagesRes.data || []);
+      setMenuItems(itemsRes.data || []);
+      setRecipes(recipesRes.data || []);
+    } catch (error) {
+      console.error("Error fetching components:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load prep components",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName("");
+    setStation("grill");
+    setUnit("portions");
+    setRecipeId(null);
+    setUsageRows([]);
+    setBatchSettings(EMPTY_BATCH_SETTINGS);
+    setEditingComponent(null);
+  };
+
+  const openDialog = (component?: PrepComponent) => {
+    if (component) {
+      setEditingComponent(component);
+      setName(component.name);
+      setStation(component.station);
+      setUnit(component.unit);
+      setRecipeId(component.recipe_id);
+      setBatchSettings(toBatchSettingsValues(component));
+      setUsageRows(
+        usages
+          .filter((u) => u.component_id === component.id)
+          .map((u) => ({ menu_item_id: u.menu_item_id, quantity: String(u.quantity_per_portion) }))
+      );
+    } else {
+      resetForm();
+    }
+    setIsDialogOpen(true);
+  };
+
+  const updateUsageRow = (index: number, changes: Partial<UsageRow>) => {
+    setUsageRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const rows = usageRows.filter((row) => row.menu_item_id);
+    const invalidRow = rows.find((row) => !(parseFloat(row.quantity) > 0));
+    if (invalidRow) {
+      toast({
+        title: "Error",
+        description: `Enter how much one portion of ${menuItems.find((m) => m.id === invalidRow.menu_item_id)?.name || "each dish"} uses`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const componentData = {
+        name: name.trim(),
+        station,
+        unit: unit.trim() || "portions",
+        recipe_id: recipeId,
+        ...fromBatchSettingsValues(batchSettings),
+      };
+      let componentId: string;
+
+      if (editingComponent) {
+        const { error } = await supabase
+          .from("prep_components")
+          .update(componentData)
+          .eq("id", editingComponent.id);
+
+        if (error) throw error;
+        componentId = editingComponent.id;
+      } else {
+        const { data, error } = await supabase
+          .from("prep_components")
+          .insert(componentData)
+          .select("id")
+          .single();
+
+        if (error) throw error;
+        componentId = data.id;
+      }
+
+      // Replace the dish usages; later rows for the same dish win
+      const { error: deleteError } = await supabase
+        .from("menu_item_components")
+        .delete()
+        .eq("component_id", componentId);
+
+      if (deleteError) throw deleteError;
+
+      const usageData = new Map(
+        rows.map((row) => [
+          row.menu_item_id,
+          { menu_item_id: row.menu_item_id, component_id: componentId, quantity_per_portion: parseFloat(row.quantity) },
+        ])
+      );
+      if (usageData.size > 0) {
+        const { error: insertError } = await supabase
+          .from("menu_item_components")
+          .insert(Array.from(usageData.values()));
+
+        if (insertError) throw insertError;
+      }
+
+      toast({ title: "Success", description: editingComponent ? "Component updated" : "Component created" });
+      setIsDialogOpen(false);
+      resetForm();
+      fetchData();
+    } catch (error) {
+      console.error("Error saving component:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save component",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this component?")) return;
+
+    try {
+      const { error } = await supabase.from("prep_components").delete().eq("id", id);
+      if (error) throw error;
+      toast({ title: "Success", description: "Component deleted" });
+      fetchData();
+    } catch (error) {
+      console.error("Error deleting component:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete component",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getUsageSummary = (component: PrepComponent) =>
+    usages
+      .filter((u) => u.component_id === component.id)
+      .map((u) => `${menuItems.find((m) => m.id === u.menu_item_id)?.name || "Unknown"} (${u.quantity_per_portion})`)
+      .join(", ");
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Prep Components</CardTitle>
+          <CardDescription>
+            Break dishes into what the line actually preps. Dishes with components are prepped through them.
+          </CardDescription>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => openDialog()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Component
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{editingComponent ? "Edit Component" : "Add Component"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="component-name">Name</Label>
+                <Input
+                  id="component-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Sliced Tomato"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Station</Label>
+                  <Select value={station} onValueChange={(v) => setStation(v as KitchenStation)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATIONS.map((s) => (
+                        <SelectItem key={s.value} value={s.value}>
+                          {s.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="component-unit">Unit</Label>
+                  <Input
+                    id="component-unit"
+                    value={unit}
+                    onChange={(e) => setUnit(e.target.value)}
+                    placeholder="e.g., strips, lb, qt"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Recipe (Optional)</Label>
+                <Select
+                  value={recipeId || "none"}
+                  onValueChange={(v) => setRecipeId(v === "none" ? null : v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a recipe" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No recipe</SelectItem>
+                    {recipes.map((r) => (
+                      <SelectItem key={r.id} value={r.id}>
+                        {r.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <BatchSettingsFields
+                idPrefix="component"
+                unit={unit}
+                values={batchSettings}
+                onChange={setBatchSettings}
+              />
+
+              {/* Dishes using this component */}
+              <div className="space-y-2">
+                <Label>Used In (per portion, in {unit || "units"})</Label>
+                {usageRows.map((row, idx) => (
+                  <div key={idx} className="flex gap-2">
+                    <Select
+                      value={row.menu_item_id}
+                      onValueChange={(v) => updateUsageRow(idx, { menu_item_id: v })}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select a dish" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {menuItems.map((m) => (
+                          <SelectItem key={m.id} value={m.id}>
+                            {m.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      placeholder="Per portion"
+                      value={row.quantity}
+                      onChange={(e) => updateUsageRow(idx, { quantity: e.target.value })}
+                      className="w-32"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setUsageRows((prev) => prev.filter((_, i) => i !== idx))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setUsageRows((prev) => [...prev, { menu_item_id: "", quantity: "" }])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Dish
+                </Button>
+              </div>
+
+              <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingComponent ? "Update" : "Create"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Station</TableHead>
+              <TableHead>Unit</TableHead>
+              <TableHead>Used In</TableHead>
+              <TableHead className="w-24">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {components.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No components yet. Dishes are prepped as whole items until they have components.
+                </TableCell>
+              </TableRow>
+            ) : (
+              components.map((component) => (
+                <TableRow key={component.id}>
+                  <TableCell className="font-medium">{component.name}</TableCell>
+                  <TableCell className="capitalize">{component.station}</TableCell>
+                  <TableCell>{component.unit}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {getUsageSummary(component) || "-"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(component)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(component.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComponentManagement;
@@ -0,0 +1,264 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Combobox } from "@/components/ui/combobox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import type { Database } from "@/integrations/supabase/types";
+import { formatPrepTime } from "@/lib/labels";
+
+type AliasSource = Database["public"]["Enums"]["menu_item_alias_source"];
+
+interface MenuItemAlias {
+  id: string;
+  alias: string;
+  menu_item_id: string;
+  source: AliasSource;
+  created_at: string;
+}
+
+interface MenuItemAliasesProps {
+  menuItems: { id: string; name: string }[];
+}
+
+const SOURCE_LABELS: Record<AliasSource, string> = {
+  manual_match: "Learned",
+  admin: "Added",
+};
+
+const MenuItemAliases = ({ menuItems }: MenuItemAliasesProps) => {
+  const { toast } = useToast();
+  const [aliases, setAliases] = useState<MenuItemAlias[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingAlias, setEditingAlias] = useState<MenuItemAlias | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Form state
+  const [alias, setAlias] = useState("");
+  const [menuItemId, setMenuItemId] = useState("");
+
+  useEffect(() => {
+    fetchAliases();
+  }, []);
+
+  const fetchAliases = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("menu_item_aliases")
+        .select("id, alias, menu_item_id, source, created_at")
+        .order("alias");
+
+      if (error) throw error;
+      setAliases(data || []);
+    } catch (error) {
+      console.error("Error fetching aliases:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load POS aliases",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openDialog = (existing?: MenuItemAlias) => {
+    setEditingAlias(existing ?? null);
+    setAlias(existing?.alias ?? "");
+    setMenuItemId(existing?.menu_item_id ?? "");
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!alias.trim() || !menuItemId) {
+      toast({
+        title: "Error",
+        description: "Enter the POS name and choose a menu item",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const aliasData = { alias: alias.trim(), menu_item_id: menuItemId };
+
+      const { error } = editingAlias
+        ? await supabase.from("menu_item_aliases").update(aliasData).eq("id", editingAlias.id)
+        : await supabase.from("menu_item_aliases").insert({ ...aliasData, source: "admin" });
+
+      if (error) {
+        // Unique violation: the name already maps to a menu item
+        if (error.code === "23505") {
+          toast({
+            title: "Alias exists",
+            description: `"${aliasData.alias}" is already mapped to a menu item`,
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      toast({ title: "Success", description: editingAlias ? "Alias updated" : "Alias added" });
+      setIsDialogOpen(false);
+      fetchAliases();
+    } catch (error) {
+      console.error("Error saving alias:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save alias",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this alias? The POS name will go back to being matched by name.")) return;
+
+    try {
+      const { error } = await supabase.from("menu_item_aliases").delete().eq("id", id);
+      if (error) throw error;
+      setAliases((prev) => prev.filter((a) => a.id !== id));
+    } catch (error) {
+      console.error("Error deleting alias:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete alias",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getMenuItemName = (id: string) => menuItems.find((item) => item.id === id)?.name || "Unknown";
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>POS Aliases</CardTitle>
+          <CardDescription>
+            Names the POS sales report uses for a menu item. Matching a sales item by hand saves its name here, so the
+            next upload matches it automatically.
+          </CardDescription>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" onClick={() => openDialog()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Alias
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingAlias ? "Edit Alias" : "Add Alias"}</DialogTitle>
+              <DialogDescription>Sales report lines with this name count toward the menu item.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="alias-name">POS Name</Label>
+                <Input
+                  id="alias-name"
+                  value={alias}
+                  onChange={(e) => setAlias(e.target.value)}
+                  placeholder="e.g., 8OZ SIRLOIN"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Menu Item</Label>
+                <Combobox
+                  value={menuItemId}
+                  onValueChange={setMenuItemId}
+                  placeholder="Select menu item..."
+                  searchPlaceholder="Search items..."
+                  emptyText="No menu items found"
+                  options={menuItems.map((item) => ({ value: item.id, label: item.name }))}
+                />
+              </div>
+              <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingAlias ? "Update" : "Create"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>POS Name</TableHead>
+                <TableHead>Menu Item</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead className="w-24">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {aliases.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No aliases yet. They're saved as you match sales items by hand.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                aliases.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell className="font-mono text-sm">{row.alias}</TableCell>
+                    <TableCell className="font-medium">{getMenuItemName(row.menu_item_id)}</TableCell>
+                    <TableCell>
+                      <Badge variant={row.source === "manual_match" ? "secondary" : "outline"}>
+                        {SOURCE_LABELS[row.source]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{formatPrepTime(row.created_at)}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(row)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(row.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MenuItemAliases;
@@ -32,6 +32,14 @@ import * as XLSX from "xlsx";
 import type { Database } from "@/integrations/supabase/types";
 import MenuItemImportPreview, { ParsedMenuItem } from "./MenuItemImportPreview";
 import UnifiedImportWizard from "./UnifiedImportWizard";
+import BatchSettingsFields from "./BatchSettingsFields";
+import MenuItemAliases from "./MenuItemAliases";
+import {
+  EMPTY_BATCH_SETTINGS,
+  fromBatchSettingsValues,
+  toBatchSettingsValues,
+  type BatchSettingsValues,
+} from "@/lib/batchSettings";
 
 type KitchenStation = Database["public"]["Enums"]["kitchen_station"];
 
@@ -42,6 +50,10 @@ interface MenuItem {
   unit: string;
   is_active: boolean;
   recipe_id: string | null;
+  min_batch: number | null;
+  batch_increment: number | null;
+  batch_container: string | null;
+  batch_container_quantity: number | null;
 }
 
 interface Recipe {
@@ -79,6 +91,7 @@ const MenuItemManagement = () => {
   const [station, setStation] = useState<KitchenStation>("grill");
   const [unit, setUnit] = useState("portions");
   const [recipeId, setRecipeId] = useState<string | null>(null);
+  const [batchSettings, setBatchSettings] = useState<BatchSettingsValues>(EMPTY_BATCH_SETTINGS);
 
   useEffect(() => {
     fetchData();
@@ -117,6 +130,7 @@ const MenuItemManagement = () => {
     setStation("grill");
     setUnit("portions");
     setRecipeId(null);
+    setBatchSettings(EMPTY_BATCH_SETTINGS);
     setEditingItem(null);
   };
 
@@ -127,6 +141,7 @@ const MenuItemManagement = () => {
       setStation(item.station);
       setUnit(item.unit);
       setRecipeId(item.recipe_id);
+      setBatchSettings(toBatchSettingsValues(item));
     } else {
       resetForm();
     }
@@ -145,10 +160,11 @@ const MenuItemManagement = () => {
 
     setIsSaving(true);
     try {
+      const batchData = fromBatchSettingsValues(batchSettings);
       if (editingItem) {
         const { error } = await supabase
           .from("menu_items")
-          .update({ name, station, unit, recipe_id: recipeId })
+          .update({ name, station, unit, recipe_id: recipeId, ...batchData })
           .eq("id", editingItem.id);
 
         if (error) throw error;
@@ -156,7 +172,7 @@ const MenuItemManagement = () => {
       } else {
         const { error } = await supabase
           .from("menu_items")
-          .insert({ name, station, unit, recipe_id: recipeId });
+          .insert({ name, station, unit, recipe_id: recipeId, ...batchData });
 
         if (error) throw error;
         toast({ title: "Success", description: "Menu item created" });
@@ -481,6 +497,12 @@ const MenuItemManagement = () => {
                       </SelectContent>
                     </Select>
                   </div>
+                  <BatchSettingsFields
+                    idPrefix="menu-item"
+                    unit={unit}
+                    values={batchSettings}
+                    onChange={setBatchSettings}
+                  />
                   <Button
                     onClick={handleSave}
                     className="w-full"
@@ -547,6 +569,8 @@ const MenuItemManagement = () => {
         </CardContent>
       </Card>
 
+      <MenuItemAliases menuItems={menuItems} />
+
       <MenuItemImportPreview
         open={isImportPreviewOpen}
         onOpenChange={setIsImportPreviewOpen}
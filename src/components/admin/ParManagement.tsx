@@ -19,9 +19,12 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Save, Upload } from "lucide-react";
+import { CalendarDays, Loader2, Rows3, Save, Upload, Wand2 } from "lucide-react";
 import type { Database } from "@/integrations/supabase/types";
 import ParSheetImportDialog from "./ParSheetImportDialog";
+import ParSuggestionDialog from "./ParSuggestionDialog";
+import ParWeekGrid from "./ParWeekGrid";
+import { getDayOfWeek, getKitchenToday } from "@/lib/kitchenDate";
 
 type KitchenStation = Database["public"]["Enums"]["kitchen_station"];
 
@@ -60,12 +63,15 @@ const ParManagement = () => {
   const { toast } = useToast();
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [parLevels, setParLevels] = useState<Map<string, number>>(new Map());
-  const [selectedDay, setSelectedDay] = useState(new Date().getDay());
+  const [selectedDay, setSelectedDay] = useState(() => getDayOfWeek(getKitchenToday()));
   const [selectedStation, setSelectedStation] = useState<KitchenStation | "all">("all");
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [changes, setChanges] = useState<Map<string, number>>(new Map());
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [suggestDialogOpen, setSuggestDialogOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<"week" | "day">("week");
+  const [gridRefreshKey, setGridRefreshKey] = useState(0);
 
   useEffect(() => {
     fetchData();
@@ -156,6 +162,12 @@ const ParManagement = () => {
     }
   };
 
+  // Reload both views after an import or accepted suggestions
+  const handleExternalUpdate = () => {
+    fetchData();
+    setGridRefreshKey((key) => key + 1);
+  };
+
   const filteredItems =
     selectedStation === "all"
       ? menuItems
@@ -180,23 +192,43 @@ const ParManagement = () => {
       <CardContent>
         {/* Filters */}
         <div className="mb-6 flex flex-wrap gap-4">
-          <div className="w-48">
-            <Select
-              value={selectedDay.toString()}
-              onValueChange={(v) => setSelectedDay(parseInt(v))}
+          <div className="flex rounded-md border p-1">
+            <Button
+              variant={viewMode === "week" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setViewMode("week")}
             >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {DAYS.map((day) => (
-                  <SelectItem key={day.value} value={day.value.toString()}>
-                    {day.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+              <CalendarDays className="mr-2 h-4 w-4" />
+              Week
+            </Button>
+            <Button
+              variant={viewMode === "day" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setViewMode("day")}
+            >
+              <Rows3 className="mr-2 h-4 w-4" />
+              Single Day
+            </Button>
           </div>
+          {viewMode === "day" && (
+            <div className="w-48">
+              <Select
+                value={selectedDay.toString()}
+                onValueChange={(v) => setSelectedDay(parseInt(v))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAYS.map((day) => (
+                    <SelectItem key={day.value} value={day.value.toString()}>
+                      {day.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="w-48">
             <Select
               value={selectedStation}
@@ -218,69 +250,89 @@ const ParManagement = () => {
           <div className="flex gap-2 ml-auto">
             <Button
               variant="outline"
-              onClick={() => setImportDialogOpen(true)}
+              onClick={() => setSuggestDialogOpen(true)}
             >
-              <Upload className="mr-2 h-4 w-4" />
-              Import Par Sheet
+              <Wand2 className="mr-2 h-4 w-4" />
+              Suggest Pars
             </Button>
             <Button
-              onClick={handleSave}
-              disabled={isSaving || changes.size === 0}
+              variant="outline"
+              onClick={() => setImportDialogOpen(true)}
             >
-              {isSaving ? (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              ) : (
-                <Save className="mr-2 h-4 w-4" />
-              )}
-              Save Changes
+              <Upload className="mr-2 h-4 w-4" />
+              Import Par Sheet
             </Button>
+            {viewMode === "day" && (
+              <Button
+                onClick={handleSave}
+                disabled={isSaving || changes.size === 0}
+              >
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save Changes
+              </Button>
+            )}
           </div>
         </div>
 
-        {/* Table */}
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Item</TableHead>
-              <TableHead>Station</TableHead>
-              <TableHead>Unit</TableHead>
-              <TableHead className="w-32">Par Level</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {filteredItems.length === 0 ? (
+        {viewMode === "week" ? (
+          <ParWeekGrid menuItems={filteredItems} refreshKey={gridRefreshKey} />
+        ) : (
+          <Table>
+            <TableHeader>
               <TableRow>
-                <TableCell colSpan={4} className="text-center text-muted-foreground">
-                  No menu items found. Add items in the Menu Items tab.
-                </TableCell>
+                <TableHead>Item</TableHead>
+                <TableHead>Station</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead className="w-32">Par Level</TableHead>
               </TableRow>
-            ) : (
-              filteredItems.map((item) => (
-                <TableRow key={item.id}>
-                  <TableCell className="font-medium">{item.name}</TableCell>
-                  <TableCell className="capitalize">{item.station}</TableCell>
-                  <TableCell>{item.unit}</TableCell>
-                  <TableCell>
-                    <Input
-                      type="number"
-                      min="0"
-                      value={getParValue(item.id)}
-                      onChange={(e) => handleParChange(item.id, e.target.value)}
-                      className="w-24"
-                    />
+            </TableHeader>
+            <TableBody>
+              {filteredItems.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No menu items found. Add items in the Menu Items tab.
                   </TableCell>
                 </TableRow>
-              ))
-            )}
-          </TableBody>
-        </Table>
+              ) : (
+                filteredItems.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.name}</TableCell>
+                    <TableCell className="capitalize">{item.station}</TableCell>
+                    <TableCell>{item.unit}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={getParValue(item.id)}
+                        onChange={(e) => handleParChange(item.id, e.target.value)}
+                        className="w-24"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
       </CardContent>
 
       <ParSheetImportDialog
         open={importDialogOpen}
         onOpenChange={setImportDialogOpen}
         selectedDay={selectedDay}
-        onImportComplete={fetchData}
+        onImportComplete={handleExternalUpdate}
+      />
+
+      <ParSuggestionDialog
+        open={suggestDialogOpen}
+        onOpenChange={setSuggestDialogOpen}
+        menuItems={menuItems}
+        selectedDay={selectedDay}
+        onApplied={handleExternalUpdate}
       />
     </Card>
   );
@@ -0,0 +1,388 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+import { formatKitchenDate, getKitchenToday } from "@/lib/kitchenDate";
+
+type KitchenStation = Database["public"]["Enums"]["kitchen_station"];
+type ParOverride = Database["public"]["Tables"]["par_overrides"]["Row"];
+
+interface MenuItem {
+  id: string;
+  name: string;
+  station: KitchenStation;
+}
+
+type Scope = "all" | "station" | "item";
+type Adjustment = "multiplier" | "absolute";
+
+const STATIONS: { value: KitchenStation; label: string }[] = [
+  { value: "grill", label: "Grill" },
+  { value: "saute", label: "Sauté" },
+  { value: "fry", label: "Fry" },
+  { value: "salad", label: "Salad" },
+  { value: "line", label: "Line" },
+];
+
+const UPCOMING_LIMIT = 8;
+
+const ParOverrideCalendar = () => {
+  const { toast } = useToast();
+  const today = getKitchenToday();
+  const [overrides, setOverrides] = useState<ParOverride[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // New rule form
+  const [label, setLabel] = useState("");
+  const [scope, setScope] = useState<Scope>("all");
+  const [station, setStation] = useState<KitchenStation>("grill");
+  const [menuItemId, setMenuItemId] = useState("");
+  const [adjustment, setAdjustment] = useState<Adjustment>("multiplier");
+  const [value, setValue] = useState("1.5");
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setIsLoading(true);
+    try {
+      const [overridesRes, itemsRes] = await Promise.all([
+        supabase
+          .from("par_overrides")
+          .select("*")
+          .order("override_date")
+          .order("created_at"),
+        supabase
+          .from("menu_items")
+          .select("id, name, station")
+          .eq("is_active", true)
+          .order("name"),
+      ]);
+
+      if (overridesRes.error) throw overridesRes.error;
+      if (itemsRes.error) throw itemsRes.error;
+
+      setOverrides(overridesRes.data || []);
+      setMenuItems(itemsRes.data || []);
+    } catch (error) {
+      console.error("Error fetching par overrides:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load event pars",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const dayOverrides = overrides.filter((o) => o.override_date === selectedDate);
+  const eventDates = Array.from(new Set(overrides.map((o) => o.override_date)));
+  const upcoming = eventDates.filter((date) => date >= today).slice(0, UPCOMING_LIMIT);
+  const itemNames = new Map(menuItems.map((m) => [m.id, m.name]));
+
+  const labelForDate = (date: string) => overrides.find((o) => o.override_date === date)?.label;
+
+  const selectDate = (date: string) => {
+    setSelectedDate(date);
+    setLabel(labelForDate(date) || "");
+  };
+
+  const describeScope = (o: ParOverride) => {
+    if (o.menu_item_id) return itemNames.get(o.menu_item_id) || "Inactive item";
+    if (o.station) return `${STATIONS.find((s) => s.value === o.station)?.label} station`;
+    return "All items";
+  };
+
+  const describeAdjustment = (o: ParOverride) =>
+    o.par_quantity !== null ? `Par ${o.par_quantity}` : `× ${o.multiplier}`;
+
+  const handleAdd = async () => {
+    const numValue = parseFloat(value);
+    if (!label.trim()) {
+      toast({ title: "Name required", description: "Give the event a name", variant: "destructive" });
+      return;
+    }
+    if (scope === "item" && !menuItemId) {
+      toast({ title: "Item required", description: "Pick the item to override", variant: "destructive" });
+      return;
+    }
+    if (
+      isNaN(numValue) ||
+      (adjustment === "multiplier" && numValue <= 0) ||
+      (adjustment === "absolute" && (numValue < 0 || !Number.isInteger(numValue)))
+    ) {
+      toast({
+        title: "Invalid value",
+        description: adjustment === "multiplier" ? "Multiplier must be above 0" : "Par must be a whole number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from("par_overrides").insert({
+        override_date: selectedDate,
+        label: label.trim(),
+        menu_item_id: scope === "item" ? menuItemId : null,
+        station: scope === "station" ? station : null,
+        multiplier: adjustment === "multiplier" ? numValue : null,
+        par_quantity: adjustment === "absolute" ? numValue : null,
+      });
+
+      if (error) {
+        if (error.code === "23505") {
+          toast({
+            title: "Already overridden",
+            description: "There is already a rule for that scope on this date. Delete it first.",
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      toast({ title: "Event par added", description: `${label.trim()} on ${formatKitchenDate(selectedDate)}` });
+      fetchData();
+    } catch (error) {
+      console.error("Error saving par override:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save event par",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("par_overrides").delete().eq("id", id);
+      if (error) throw error;
+      setOverrides((prev) => prev.filter((o) => o.id !== id));
+    } catch (error) {
+      console.error("Error deleting par override:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete event par",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Event Pars</CardTitle>
+        <CardDescription>
+          Override weekday pars on specific dates for member events, holidays and banquets
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 lg:grid-cols-[auto_1fr]">
+          {/* Calendar */}
+          <div className="space-y-4">
+            <Calendar
+              mode="single"
+              selected={parseISO(selectedDate)}
+              defaultMonth={parseISO(selectedDate)}
+              onSelect={(date) => date && selectDate(format(date, "yyyy-MM-dd"))}
+              modifiers={{ event: eventDates.map((date) => parseISO(date)) }}
+              modifiersClassNames={{ event: "font-bold text-primary underline underline-offset-4" }}
+              className="rounded-md border"
+            />
+            <div>
+              <h4 className="mb-2 text-sm font-medium">Upcoming</h4>
+              {upcoming.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No upcoming events</p>
+              ) : (
+                <div className="space-y-1">
+                  {upcoming.map((date) => (
+                    <button
+                      key={date}
+                      onClick={() => selectDate(date)}
+                      className="flex w-full items-center justify-between rounded-md px-2 py-1 text-left text-sm hover:bg-accent"
+                    >
+                      <span className="truncate">{labelForDate(date)}</span>
+                      <span className="ml-2 shrink-0 text-muted-foreground">
+                        {formatKitchenDate(date, { weekday: "short", month: "short", day: "numeric" })}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Rules for the selected date */}
+          <div className="space-y-4">
+            <h3 className="font-medium">{formatKitchenDate(selectedDate)}</h3>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Adjustment</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dayOverrides.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      Regular weekday pars apply on this date.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  dayOverrides.map((o) => (
+                    <TableRow key={o.id}>
+                      <TableCell className="font-medium">{o.label}</TableCell>
+                      <TableCell>{describeScope(o)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-mono">
+                          {describeAdjustment(o)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(o.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            {/* Add rule */}
+            <div className="space-y-3 rounded-md border p-4">
+              <h4 className="text-sm font-medium">Add Override</h4>
+              <div className="flex flex-wrap gap-3">
+                <Input
+                  placeholder="Event name, e.g. Mother's Day Brunch"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  className="min-w-[220px] flex-1"
+                />
+                <Select value={scope} onValueChange={(v) => setScope(v as Scope)}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All items</SelectItem>
+                    <SelectItem value="station">Station</SelectItem>
+                    <SelectItem value="item">Single item</SelectItem>
+                  </SelectContent>
+                </Select>
+                {scope === "station" && (
+                  <Select value={station} onValueChange={(v) => setStation(v as KitchenStation)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATIONS.map((s) => (
+                        <SelectItem key={s.value} value={s.value}>
+                          {s.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {scope === "item" && (
+                  <Select value={menuItemId} onValueChange={setMenuItemId}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue placeholder="Select item..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {menuItems.map((m) => (
+                        <SelectItem key={m.id} value={m.id}>
+                          {m.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <Select
+                  value={adjustment}
+                  onValueChange={(v) => {
+                    setAdjustment(v as Adjustment);
+                    setValue(v === "multiplier" ? "1.5" : "0");
+                  }}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="multiplier">Multiply par by</SelectItem>
+                    <SelectItem value="absolute">Set par to</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  step={adjustment === "multiplier" ? "0.05" : "1"}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="w-24"
+                />
+                <Button onClick={handleAdd} disabled={isSaving} className="ml-auto">
+                  {isSaving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  Add Override
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Item rules take priority over station rules, which take priority over all-item rules.
+                Without an on-hand count, a multiplier also scales the sales estimate.
+              </p>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ParOverrideCalendar;
@@ -40,6 +40,7 @@ interface ReviewItem extends ParsedItem {
   matchResult: MatchResult;
   manualMatchId: string | null;
   editedQuantity: number;
+  dayQuantities: Record<number, number>; // Multi-day sheets only, keyed by day_of_week
 }
 
 interface ParSheetImportDialogProps {
@@ -59,6 +60,37 @@ const DAYS = [
   { value: 6, label: "Saturday" },
 ];
 
+const isDayOfWeek = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 6;
+
+// Collapse one-row-per-day output into one row per item with a quantity for each day.
+// Rows without a day (a shared "Par" column) fill any day the item has no value for.
+const groupByItem = (items: ParsedItem[], days: number[]): (ParsedItem & { dayQuantities: Record<number, number> })[] => {
+  const groups = new Map<string, ParsedItem & { dayQuantities: Record<number, number> }>();
+  const shared = new Map<string, number>();
+
+  items.forEach((item) => {
+    const key = item.name.trim().toLowerCase();
+    const group = groups.get(key) || { ...item, day_of_week: null, dayQuantities: {} };
+    if (isDayOfWeek(item.day_of_week)) {
+      group.dayQuantities[item.day_of_week] = item.par_quantity;
+    } else {
+      shared.set(key, item.par_quantity);
+    }
+    group.unit = group.unit || item.unit;
+    groups.set(key, group);
+  });
+
+  shared.forEach((quantity, key) => {
+    const group = groups.get(key)!;
+    days.forEach((day) => {
+      if (group.dayQuantities[day] === undefined) group.dayQuantities[day] = quantity;
+    });
+  });
+
+  return Array.from(groups.values());
+};
+
 const ParSheetImportDialog = ({
   open,
   onOpenChange,
@@ -71,6 +103,8 @@ const ParSheetImportDialog = ({
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [reviewItems, setReviewItems] = useState<ReviewItem[]>([]);
   const [importDay, setImportDay] = useState(selectedDay);
+  const [sheetDays, setSheetDays] = useState<number[]>([]);
+  const isMultiDay = sheetDays.length > 0;
   const [dragActive, setDragActive] = useState(false);
 
   // Fetch menu items when dialog opens
@@ -90,6 +124,7 @@ const ParSheetImportDialog = ({
       setStep("upload");
       setReviewItems([]);
       setImportDay(selectedDay);
+      setSheetDays([]);
     }
     onOpenChange(newOpen);
   };
@@ -197,8 +232,21 @@ const ParSheetImportDialog = ({
         return;
       }
 
+      // A sheet with per-day columns imports each day in one pass. A single day
+      // column still imports to that column's day rather than the selected one
+      const days = Array.from(
+        new Set<number>([
+          ...((data.data?.detected_days || []) as unknown[]).filter(isDayOfWeek),
+          ...parsedItems.map((item) => item.day_of_week).filter(isDayOfWeek),
+        ])
+      ).sort((a, b) => a - b);
+      const multiDaySheet = data.data?.has_multiple_days === true && days.length > 0;
+      const rows = multiDaySheet
+        ? groupByItem(parsedItems, days)
+        : parsedItems.map((item) => ({ ...item, dayQuantities: {} }));
+
       // Match items and prepare for review
-      const reviews: ReviewItem[] = parsedItems.map((item) => {
+      const reviews: ReviewItem[] = rows.map((item) => {
         const matchResult = findBestMatch(item.name, menuItems);
         return {
           ...item,
@@ -209,12 +257,17 @@ const ParSheetImportDialog = ({
         };
       });
 
+      setSheetDays(multiDaySheet ? days : []);
       setReviewItems(reviews);
       setStep("review");
       
       toast({
         title: "File parsed",
-        description: `Found ${parsedItems.length} items`,
+        description: multiDaySheet
+          ? days.length === 1
+            ? `Found ${reviews.length} items for ${DAYS[days[0]].label}`
+            : `Found ${reviews.length} items across ${days.length} days`
+          : `Found ${parsedItems.length} items`,
       });
 
     } catch (err) {
@@ -287,6 +340,15 @@ const ParSheetImportDialog = ({
     );
   };
 
+  // Update quantity for one day of a multi-day sheet
+  const updateDayQuantity = (index: number, day: number, quantity: number) => {
+    setReviewItems((prev) =>
+      prev.map((item, i) =>
+        i === index ? { ...item, dayQuantities: { ...item.dayQuantities, [day]: quantity } } : item
+      )
+    );
+  };
+
   // Get the menu item ID to use for import
   const getMenuItemId = (item: ReviewItem): string | null => {
     if (item.manualMatchId) return item.manualMatchId;
@@ -312,11 +374,22 @@ const ParSheetImportDialog = ({
     setStep("importing");
 
     try {
-      const upserts = itemsToImport.map((item) => ({
-        menu_item_id: getMenuItemId(item)!,
-        day_of_week: importDay,
-        par_quantity: item.editedQuantity,
-      }));
+      const rows = itemsToImport.flatMap((item) =>
+        isMultiDay
+          ? sheetDays
+              .filter((day) => item.dayQuantities[day] !== undefined)
+              .map((day) => ({
+                menu_item_id: getMenuItemId(item)!,
+                day_of_week: day,
+                par_quantity: item.dayQuantities[day],
+              }))
+          : [{ menu_item_id: getMenuItemId(item)!, day_of_week: importDay, par_quantity: item.editedQuantity }]
+      );
+
+      // Two sheet rows matched to the same item would hit the same conflict key twice
+      const upserts = Array.from(
+        new Map(rows.map((row) => [`${row.menu_item_id}:${row.day_of_week}`, row])).values()
+      );
 
       const { error } = await supabase.from("par_levels").upsert(upserts, {
         onConflict: "menu_item_id,day_of_week",
@@ -326,7 +399,9 @@ const ParSheetImportDialog = ({
 
       toast({
         title: "Import complete",
-        description: `Updated ${itemsToImport.length} par levels for ${DAYS.find((d) => d.value === importDay)?.label}`,
+        description: isMultiDay
+          ? `Updated ${upserts.length} par levels across ${sheetDays.length} days`
+          : `Updated ${upserts.length} par levels for ${DAYS.find((d) => d.value === importDay)?.label}`,
       });
 
       onImportComplete();
@@ -348,7 +423,7 @@ const ParSheetImportDialog = ({
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
-      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+      <DialogContent className={`${isMultiDay ? "max-w-4xl" : "max-w-2xl"} max-h-[85vh] flex flex-col`}>
         <DialogHeader>
           <DialogTitle>Import Par Sheet</DialogTitle>
           <DialogDescription>
@@ -414,24 +489,30 @@ const ParSheetImportDialog = ({
                 />
                 <span className="text-sm">Select All Matched</span>
               </div>
-              <div className="flex items-center gap-2 ml-auto">
-                <span className="text-sm text-muted-foreground">Import to:</span>
-                <Select
-                  value={importDay.toString()}
-                  onValueChange={(v) => setImportDay(parseInt(v))}
-                >
-                  <SelectTrigger className="w-36">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {DAYS.map((day) => (
-                      <SelectItem key={day.value} value={day.value.toString()}>
-                        {day.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+              {isMultiDay ? (
+                <span className="text-sm text-muted-foreground ml-auto">
+                  Importing {sheetDays.map((day) => DAYS[day].label.slice(0, 3)).join(", ")}
+                </span>
+              ) : (
+                <div className="flex items-center gap-2 ml-auto">
+                  <span className="text-sm text-muted-foreground">Import to:</span>
+                  <Select
+                    value={importDay.toString()}
+                    onValueChange={(v) => setImportDay(parseInt(v))}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAYS.map((day) => (
+                        <SelectItem key={day.value} value={day.value.toString()}>
+                          {day.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
 
             {/* Summary */}
@@ -530,21 +611,46 @@ const ParSheetImportDialog = ({
                             )}
 
                             {/* Quantity input */}
-                            <div className="flex items-center gap-2 ml-auto">
-                              <span className="text-sm text-muted-foreground">Par:</span>
-                              <Input
-                                type="number"
-                                min="0"
-                                value={item.editedQuantity}
-                                onChange={(e) =>
-                                  updateQuantity(index, parseInt(e.target.value) || 0)
-                                }
-                                className="w-20 h-8"
-                              />
-                              {item.unit && (
-                                <span className="text-xs text-muted-foreground">{item.unit}</span>
-                              )}
-                            </div>
+                            {isMultiDay ? (
+                              <div className="flex items-end gap-1 ml-auto">
+                                {sheetDays.map((day) => (
+                                  <div key={day} className="flex flex-col items-center gap-1">
+                                    <span className="text-xs text-muted-foreground">
+                                      {DAYS[day].label.slice(0, 3)}
+                                    </span>
+                                    <Input
+                                      type="number"
+                                      min="0"
+                                      value={item.dayQuantities[day] ?? ""}
+                                      placeholder="-"
+                                      onChange={(e) =>
+                                        updateDayQuantity(index, day, parseInt(e.target.value) || 0)
+                                      }
+                                      className="w-14 h-8 px-1 text-center"
+                                    />
+                                  </div>
+                                ))}
+                                {item.unit && (
+                                  <span className="text-xs text-muted-foreground pb-2">{item.unit}</span>
+                                )}
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-2 ml-auto">
+                                <span className="text-sm text-muted-foreground">Par:</span>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  value={item.editedQuantity}
+                                  onChange={(e) =>
+                                    updateQuantity(index, parseInt(e.target.value) || 0)
+                                  }
+                                  className="w-20 h-8"
+                                />
+                                {item.unit && (
+                                  <span className="text-xs text-muted-foreground">{item.unit}</span>
+                                )}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -0,0 +1,382 @@
+import { useState, useEffect, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { addDays, getKitchenToday } from "@/lib/kitchenDate";
+import { fetchAllRows } from "@/lib/pagination";
+import { buildParSuggestions, type ParSuggestion, type SalesRecord } from "@/lib/parSuggestions";
+
+interface MenuItem {
+  id: string;
+  name: string;
+  station: string;
+}
+
+interface ParSuggestionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  menuItems: MenuItem[];
+  selectedDay: number;
+  onApplied: () => void;
+}
+
+const DAYS = [
+  { value: 0, label: "Sunday" },
+  { value: 1, label: "Monday" },
+  { value: 2, label: "Tuesday" },
+  { value: 3, label: "Wednesday" },
+  { value: 4, label: "Thursday" },
+  { value: 5, label: "Friday" },
+  { value: 6, label: "Saturday" },
+];
+
+const HISTORY_WEEK_OPTIONS = [4, 8, 12, 26];
+const PERCENTILE_OPTIONS = [50, 75, 90, 95];
+
+const suggestionKey = (s: ParSuggestion) => `${s.menu_item_id}:${s.day_of_week}`;
+
+const ParSuggestionDialog = ({
+  open,
+  onOpenChange,
+  menuItems,
+  selectedDay,
+  onApplied,
+}: ParSuggestionDialogProps) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [historyWeeks, setHistoryWeeks] = useState(8);
+  const [percentileValue, setPercentileValue] = useState(75);
+  const [bufferPercent, setBufferPercent] = useState(10);
+  const [dayFilter, setDayFilter] = useState<number | "all">(selectedDay);
+  const [sales, setSales] = useState<SalesRecord[]>([]);
+  const [currentPars, setCurrentPars] = useState<Map<string, number>>(new Map());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (open) {
+      setDayFilter(selectedDay);
+      fetchHistory();
+    }
+  }, [open, historyWeeks]);
+
+  const fetchHistory = async () => {
+    setIsLoading(true);
+    try {
+      const today = getKitchenToday();
+      // Months of sales run past the 1000-row response cap, so read them in pages
+      const [salesData, parsData] = await Promise.all([
+        fetchAllRows((from, to) =>
+          supabase
+            .from("sales_data")
+            .select("menu_item_id, sales_date, quantity_sold")
+            .gte("sales_date", addDays(today, -7 * historyWeeks))
+            .lt("sales_date", today)
+            .order("id")
+            .range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase
+            .from("par_levels")
+            .select("menu_item_id, day_of_week, par_quantity")
+            .order("id")
+            .range(from, to)
+        ),
+      ]);
+
+      setSales(salesData);
+
+      const parMap = new Map<string, number>();
+      parsData.forEach((p) => {
+        parMap.set(`${p.menu_item_id}:${p.day_of_week}`, p.par_quantity);
+      });
+      setCurrentPars(parMap);
+    } catch (error) {
+      console.error("Error fetching sales history:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load sales history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const suggestions = useMemo(
+    () =>
+      buildParSuggestions(
+        sales,
+        menuItems.map((m) => m.id),
+        currentPars,
+        { percentile: percentileValue, bufferPercent }
+      ),
+    [sales, menuItems, currentPars, percentileValue, bufferPercent]
+  );
+
+  // Pre-select every suggestion that would change the par
+  useEffect(() => {
+    setSelected(new Set(suggestions.filter((s) => s.suggested !== (s.current ?? 0)).map(suggestionKey)));
+  }, [suggestions]);
+
+  const itemNames = useMemo(() => new Map(menuItems.map((m) => [m.id, m.name])), [menuItems]);
+
+  const visibleSuggestions = suggestions
+    .filter((s) => dayFilter === "all" || s.day_of_week === dayFilter)
+    .sort(
+      (a, b) =>
+        (itemNames.get(a.menu_item_id) || "").localeCompare(itemNames.get(b.menu_item_id) || "") ||
+        a.day_of_week - b.day_of_week
+    );
+
+  const visibleSelectedCount = visibleSuggestions.filter((s) => selected.has(suggestionKey(s))).length;
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      visibleSuggestions.forEach((s) => {
+        if (checked) {
+          next.add(suggestionKey(s));
+        } else {
+          next.delete(suggestionKey(s));
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    const toApply = visibleSuggestions.filter((s) => selected.has(suggestionKey(s)));
+    if (toApply.length === 0) {
+      toast({ title: "Nothing selected", description: "Select at least one suggestion to accept" });
+      return;
+    }
+
+    setIsApplying(true);
+    try {
+      const upserts = toApply.map((s) => ({
+        menu_item_id: s.menu_item_id,
+        day_of_week: s.day_of_week,
+        par_quantity: s.suggested,
+      }));
+
+      const { error } = await supabase.from("par_levels").upsert(upserts, {
+        onConflict: "menu_item_id,day_of_week",
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Pars updated", description: `Accepted ${upserts.length} suggested par levels` });
+      onApplied();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error applying suggestions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save suggested par levels",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Suggest Pars</DialogTitle>
+          <DialogDescription>
+            Recommended pars from the {percentileValue}th percentile of daily sales over the last {historyWeeks} weeks, plus a {bufferPercent}% safety buffer
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">History:</span>
+            <Select value={historyWeeks.toString()} onValueChange={(v) => setHistoryWeeks(parseInt(v))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HISTORY_WEEK_OPTIONS.map((weeks) => (
+                  <SelectItem key={weeks} value={weeks.toString()}>
+                    {weeks} weeks
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Percentile:</span>
+            <Select value={percentileValue.toString()} onValueChange={(v) => setPercentileValue(parseInt(v))}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERCENTILE_OPTIONS.map((p) => (
+                  <SelectItem key={p} value={p.toString()}>
+                    {p}th
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Buffer %:</span>
+            <Input
+              type="number"
+              min="0"
+              value={bufferPercent}
+              onChange={(e) => setBufferPercent(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-20"
+            />
+          </div>
+          <div className="ml-auto">
+            <Select
+              value={dayFilter.toString()}
+              onValueChange={(v) => setDayFilter(v === "all" ? "all" : parseInt(v))}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Days</SelectItem>
+                {DAYS.map((day) => (
+                  <SelectItem key={day.value} value={day.value.toString()}>
+                    {day.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ScrollArea className="flex-1 h-[45vh] border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={visibleSuggestions.length > 0 && visibleSelectedCount === visibleSuggestions.length}
+                      onCheckedChange={(checked) => toggleAllVisible(!!checked)}
+                    />
+                  </TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Day</TableHead>
+                  <TableHead className="text-right">Current</TableHead>
+                  <TableHead className="text-right">Suggested</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleSuggestions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No sales history for this period. Upload sales reports first.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleSuggestions.map((s) => {
+                    const key = suggestionKey(s);
+                    const delta = s.suggested - (s.current ?? 0);
+                    return (
+                      <TableRow key={key}>
+                        <TableCell>
+                          <Checkbox checked={selected.has(key)} onCheckedChange={() => toggle(key)} />
+                        </TableCell>
+                        <TableCell className="font-medium">{itemNames.get(s.menu_item_id)}</TableCell>
+                        <TableCell>{DAYS[s.day_of_week].label.slice(0, 3)}</TableCell>
+                        <TableCell className="text-right font-mono">{s.current ?? "-"}</TableCell>
+                        <TableCell className="text-right font-mono font-semibold">{s.suggested}</TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-right font-mono",
+                            delta > 0 && "text-green-500",
+                            delta < 0 && "text-destructive",
+                            delta === 0 && "text-muted-foreground"
+                          )}
+                        >
+                          {delta > 0 ? `+${delta}` : delta}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">{s.sampleCount}</TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-muted-foreground">
+            {visibleSelectedCount} of {visibleSuggestions.length} suggestions selected
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleApply} disabled={isApplying || visibleSelectedCount === 0}>
+              {isApplying ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Check className="mr-2 h-4 w-4" />
+              )}
+              Accept {visibleSelectedCount} Pars
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ParSuggestionDialog;
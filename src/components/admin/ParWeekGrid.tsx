@@ -0,0 +1,341 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRight, Copy, Loader2, Save, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { fetchAllRows } from "@/lib/pagination";
+
+interface MenuItem {
+  id: string;
+  name: string;
+  station: string;
+  unit: string;
+}
+
+interface ParWeekGridProps {
+  menuItems: MenuItem[];
+  refreshKey: number;
+}
+
+const DAYS = [
+  { value: 0, label: "Sun" },
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+];
+
+const cellKey = (menuItemId: string, day: number) => `${menuItemId}:${day}`;
+
+const ParWeekGrid = ({ menuItems, refreshKey }: ParWeekGridProps) => {
+  const { toast } = useToast();
+  const [parLevels, setParLevels] = useState<Map<string, number>>(new Map());
+  const [changes, setChanges] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [activeCell, setActiveCell] = useState<{ row: number; day: number } | null>(null);
+  const [copyFrom, setCopyFrom] = useState(1);
+  const [copyTo, setCopyTo] = useState(2);
+  const cellRefs = useRef<Map<string, HTMLInputElement>>(new Map());
+
+  useEffect(() => {
+    fetchPars();
+  }, [refreshKey]);
+
+  const fetchPars = async () => {
+    setIsLoading(true);
+    try {
+      // Seven days per item runs past the 1000-row response cap, so read in pages
+      const data = await fetchAllRows((from, to) =>
+        supabase
+          .from("par_levels")
+          .select("menu_item_id, day_of_week, par_quantity")
+          .order("id")
+          .range(from, to)
+      );
+
+      const parMap = new Map<string, number>();
+      data.forEach((p) => {
+        parMap.set(cellKey(p.menu_item_id, p.day_of_week), p.par_quantity);
+      });
+      setParLevels(parMap);
+      setChanges(new Map());
+    } catch (error) {
+      console.error("Error fetching par levels:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load par levels",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getValue = (menuItemId: string, day: number): number => {
+    const key = cellKey(menuItemId, day);
+    if (changes.has(key)) return changes.get(key)!;
+    return parLevels.get(key) || 0;
+  };
+
+  const isDirty = (menuItemId: string, day: number): boolean => changes.has(cellKey(menuItemId, day));
+
+  // Record edits; cells set back to their saved value drop out of the change set
+  const setCells = (updates: { menuItemId: string; day: number; value: number }[]) => {
+    setChanges((prev) => {
+      const next = new Map(prev);
+      updates.forEach(({ menuItemId, day, value }) => {
+        const key = cellKey(menuItemId, day);
+        if (value === (parLevels.get(key) || 0)) {
+          next.delete(key);
+        } else {
+          next.set(key, value);
+        }
+      });
+      return next;
+    });
+  };
+
+  const focusCell = (row: number, day: number) => {
+    const item = menuItems[row];
+    if (!item || day < 0 || day > 6) return;
+    const input = cellRefs.current.get(cellKey(item.id, day));
+    input?.focus();
+    input?.select();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, day: number) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [row - 1, day],
+      ArrowDown: [row + 1, day],
+      ArrowLeft: [row, day - 1],
+      ArrowRight: [row, day + 1],
+      Enter: [e.shiftKey ? row - 1 : row + 1, day],
+    };
+    const target = moves[e.key];
+    if (!target) return;
+    e.preventDefault();
+    focusCell(target[0], target[1]);
+  };
+
+  const handleFillRight = () => {
+    if (!activeCell) return;
+    const item = menuItems[activeCell.row];
+    if (!item) return;
+    const value = getValue(item.id, activeCell.day);
+    setCells(
+      DAYS.filter((d) => d.value > activeCell.day).map((d) => ({ menuItemId: item.id, day: d.value, value }))
+    );
+  };
+
+  const handleCopyDay = () => {
+    if (copyFrom === copyTo) return;
+    setCells(menuItems.map((item) => ({ menuItemId: item.id, day: copyTo, value: getValue(item.id, copyFrom) })));
+    toast({
+      title: "Day copied",
+      description: `Copied ${DAYS[copyFrom].label} pars to ${DAYS[copyTo].label} for ${menuItems.length} items`,
+    });
+  };
+
+  const dirtyKeys = Array.from(changes.keys());
+
+  const handleSave = async () => {
+    if (dirtyKeys.length === 0) {
+      toast({ title: "No changes", description: "Nothing to save" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const upserts = dirtyKeys.map((key) => {
+        const [menu_item_id, day] = key.split(":");
+        return {
+          menu_item_id,
+          day_of_week: parseInt(day),
+          par_quantity: changes.get(key)!,
+        };
+      });
+
+      const { error } = await supabase.from("par_levels").upsert(upserts, {
+        onConflict: "menu_item_id,day_of_week",
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: `Saved ${upserts.length} par levels` });
+      fetchPars();
+    } catch (error) {
+      console.error("Error saving:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save par levels",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Grid Actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleFillRight}
+          disabled={!activeCell}
+          title="Copy the selected cell to the rest of the week"
+        >
+          <ArrowRight className="mr-2 h-4 w-4" />
+          Fill Right
+        </Button>
+        <div className="flex items-center gap-2">
+          <Select value={copyFrom.toString()} onValueChange={(v) => setCopyFrom(parseInt(v))}>
+            <SelectTrigger className="h-9 w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAYS.map((day) => (
+                <SelectItem key={day.value} value={day.value.toString()}>
+                  {day.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <Select value={copyTo.toString()} onValueChange={(v) => setCopyTo(parseInt(v))}>
+            <SelectTrigger className="h-9 w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAYS.map((day) => (
+                <SelectItem key={day.value} value={day.value.toString()}>
+                  {day.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleCopyDay} disabled={copyFrom === copyTo}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy Day
+          </Button>
+        </div>
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setChanges(new Map())}
+            disabled={dirtyKeys.length === 0}
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            Discard
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving || dirtyKeys.length === 0}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save {dirtyKeys.length > 0 ? `${dirtyKeys.length} Changes` : "Changes"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[180px]">Item</TableHead>
+              <TableHead>Unit</TableHead>
+              {DAYS.map((day) => (
+                <TableHead key={day.value} className="w-20 text-center">
+                  {day.label}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {menuItems.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground">
+                  No menu items found. Add items in the Menu Items tab.
+                </TableCell>
+              </TableRow>
+            ) : (
+              menuItems.map((item, row) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{item.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{item.unit}</TableCell>
+                  {DAYS.map((day) => (
+                    <TableCell key={day.value} className="p-1">
+                      <Input
+                        ref={(el) => {
+                          if (el) {
+                            cellRefs.current.set(cellKey(item.id, day.value), el);
+                          } else {
+                            cellRefs.current.delete(cellKey(item.id, day.value));
+                          }
+                        }}
+                        type="number"
+                        min="0"
+                        value={getValue(item.id, day.value)}
+                        onChange={(e) =>
+                          setCells([{ menuItemId: item.id, day: day.value, value: parseInt(e.target.value) || 0 }])
+                        }
+                        onFocus={(e) => {
+                          setActiveCell({ row, day: day.value });
+                          e.target.select();
+                        }}
+                        onKeyDown={(e) => handleKeyDown(e, row, day.value)}
+                        className={cn(
+                          "h-9 w-16 text-center",
+                          isDirty(item.id, day.value) && "border-primary bg-primary/10"
+                        )}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {dirtyKeys.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Highlighted cells have unsaved changes. Use the arrow keys or Enter to move between cells.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ParWeekGrid;
@@ -0,0 +1,295 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Calendar, FileDown, History, Loader2, Printer } from "lucide-react";
+import type { Database } from "@/integrations/supabase/types";
+import { addDays, formatKitchenDate, getKitchenToday } from "@/lib/kitchenDate";
+import { formatQuantity } from "@/lib/units";
+import { downloadPrepSheetCsv, printPrepSheet, type PrepSheetRow } from "@/lib/prepSheet";
+import { formatLaborMinutes, totalLaborByStation } from "@/lib/labor";
+import PrepListTimeline from "./PrepListTimeline";
+import StationLaborSummary from "./StationLaborSummary";
+
+type KitchenStation = Database["public"]["Enums"]["kitchen_station"];
+
+interface SheetTarget {
+  name: string;
+  station: KitchenStation;
+  unit: string;
+  recipes: { name: string; page_reference: string | null } | null;
+}
+
+type ExportRow = PrepSheetRow & {
+  id: string;
+  estimatedMinutes: number | null;
+  activeSeconds: number;
+};
+
+const STATIONS: { value: KitchenStation; label: string }[] = [
+  { value: "grill", label: "Grill" },
+  { value: "saute", label: "Sauté" },
+  { value: "fry", label: "Fry" },
+  { value: "salad", label: "Salad" },
+  { value: "line", label: "Line" },
+];
+
+const PrepListExport = () => {
+  const { toast } = useToast();
+  const [prepDate, setPrepDate] = useState(() => getKitchenToday());
+  const [prepListId, setPrepListId] = useState<string | null>(null);
+  const [rows, setRows] = useState<ExportRow[] | null>(null);
+  const [historyItem, setHistoryItem] = useState<{ id: string; name: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (prepDate) fetchPrepSheet(prepDate);
+  }, [prepDate]);
+
+  const fetchPrepSheet = async (date: string) => {
+    setIsLoading(true);
+    setHistoryItem(null);
+    try {
+      const { data: prepList, error: prepListError } = await supabase
+        .from("prep_lists")
+        .select("id")
+        .eq("prep_date", date)
+        .maybeSingle();
+
+      if (prepListError) throw prepListError;
+
+      if (!prepList) {
+        setPrepListId(null);
+        setRows(null);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("prep_list_items")
+        .select(`
+          id,
+          quantity_needed,
+          quantity_produced,
+          batch_count,
+          batch_container,
+          container_quantity,
+          status,
+          estimated_minutes,
+          active_seconds,
+          menu_items (
+            name,
+            station,
+            unit,
+            recipes (
+              name,
+              page_reference
+            )
+          ),
+          prep_components (
+            name,
+            station,
+            unit,
+            recipes (
+              name,
+              page_reference
+            )
+          )
+        `)
+        .eq("prep_list_id", prepList.id);
+
+      if (error) throw error;
+
+      setPrepListId(prepList.id);
+      setRows(
+        (data || []).flatMap((item) => {
+          const target = (item.menu_items || item.prep_components) as SheetTarget | null;
+          if (!target) return [];
+          return [
+            {
+              id: item.id,
+              station: target.station,
+              name: target.name,
+              quantity: item.quantity_needed,
+              quantityProduced: item.quantity_produced,
+              unit: target.unit,
+              batchCount: item.batch_count,
+              batchContainer: item.batch_container,
+              containerQuantity: item.container_quantity,
+              recipeName: target.recipes?.name ?? null,
+              pageReference: target.recipes?.page_reference ?? null,
+              completed: item.status === "completed",
+              estimatedMinutes: item.estimated_minutes,
+              activeSeconds: item.active_seconds,
+            },
+          ];
+        })
+      );
+    } catch (error) {
+      console.error("Error fetching prep list:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load prep list",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!rows) return;
+    if (!printPrepSheet(prepDate, rows, STATIONS)) {
+      toast({
+        title: "Couldn't open prep list",
+        description: "Allow pop-ups for this site to print",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!rows) return;
+    downloadPrepSheetCsv(prepDate, rows, STATIONS);
+  };
+
+  const sortedRows = [...(rows || [])]
+    .filter((row) => row.quantity > 0)
+    .sort(
+      (a, b) =>
+        STATIONS.findIndex((s) => s.value === a.station) - STATIONS.findIndex((s) => s.value === b.station) ||
+        a.name.localeCompare(b.name)
+    );
+
+  const labor = totalLaborByStation(
+    sortedRows.map((row) => ({ station: row.station, quantity_needed: row.quantity, labor_minutes: row.estimatedMinutes }))
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Print & Export Prep List</CardTitle>
+          <CardDescription>
+            Print any day's prep list with each station on its own page, or export it as CSV. Choose "Save as PDF" in the
+            print dialog for a PDF copy.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="exportPrepDate">Prep Date</Label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="exportPrepDate"
+                  type="date"
+                  value={prepDate}
+                  onChange={(e) => setPrepDate(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setPrepDate(addDays(getKitchenToday(), -1))}>
+                Yesterday
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setPrepDate(getKitchenToday())}>
+                Today
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setPrepDate(addDays(getKitchenToday(), 1))}>
+                Tomorrow
+              </Button>
+            </div>
+            <div className="ml-auto flex gap-2">
+              <Button variant="outline" onClick={handleExportCsv} disabled={isLoading || sortedRows.length === 0}>
+                <FileDown className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+              <Button onClick={handlePrint} disabled={isLoading || sortedRows.length === 0}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print / PDF
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : sortedRows.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">
+              {rows ? "Nothing to prep" : "No prep list"} for {prepDate ? formatKitchenDate(prepDate) : "this date"}
+            </p>
+          ) : (
+            <>
+              <StationLaborSummary labor={labor} />
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Station</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead>Unit</TableHead>
+                    <TableHead>Recipe</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Est. / Actual</TableHead>
+                    <TableHead className="w-12"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedRows.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell>{STATIONS.find((s) => s.value === row.station)?.label ?? row.station}</TableCell>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(row.quantity)}</TableCell>
+                      <TableCell>{row.unit}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {row.recipeName || "-"}
+                        {row.pageReference && ` (${row.pageReference})`}
+                      </TableCell>
+                      <TableCell>
+                        {row.completed ? <Badge variant="secondary">Done</Badge> : <Badge variant="outline">Open</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {row.estimatedMinutes != null ? formatLaborMinutes(row.estimatedMinutes) : "-"} /{" "}
+                        {row.activeSeconds > 0 ? formatLaborMinutes(row.activeSeconds / 60) : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistoryItem({ id: row.id, name: row.name })}
+                          aria-label={`History for ${row.name}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {prepListId && !isLoading && (
+        <PrepListTimeline prepListId={prepListId} item={historyItem} onShowAll={() => setHistoryItem(null)} />
+      )}
+    </div>
+  );
+};
+
+export default PrepListExport;
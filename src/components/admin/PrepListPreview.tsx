@@ -0,0 +1,294 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatKitchenDate } from "@/lib/kitchenDate";
+import { formatLaborMinutes, type StationLabor } from "@/lib/labor";
+import StationLaborSummary from "./StationLaborSummary";
+
+export type CalculationMethod = "par_minus_on_hand" | "par_override" | "forecast" | "sales";
+
+export interface PreviewItem {
+  menu_item_id: string;
+  name: string;
+  station: string;
+  par_quantity: number;
+  weekday_par_quantity: number | null;
+  override_label: string | null;
+  on_hand_quantity: number | null;
+  forecast_quantity: number | null;
+  sold_quantity: number | null;
+  in_date_quantity: number | null;
+  shortfall_quantity: number | null;
+  raw_quantity: number;
+  quantity_needed: number;
+  batch_count: number | null;
+  batch_container: string | null;
+  container_quantity: number | null;
+  calculation_method: CalculationMethod;
+  labor_minutes: number | null;
+  sub_recipes: { recipe_id: string; name: string; batches: number }[];
+  prepped_as_components: boolean;
+}
+
+export interface PreviewComponent {
+  component_id: string;
+  name: string;
+  station: string;
+  unit: string;
+  in_date_quantity: number | null;
+  shortfall_quantity: number | null;
+  raw_quantity: number;
+  quantity_needed: number;
+  batch_count: number | null;
+  batch_container: string | null;
+  container_quantity: number | null;
+  source_items: { menu_item_id: string | null; name: string; portions: number; quantity: number }[];
+  labor_minutes: number | null;
+  sub_recipes: { recipe_id: string; name: string; batches: number }[];
+}
+
+export interface PreviewStockFlag {
+  id: string;
+  name: string;
+  station: string;
+  unit: string;
+  quantity_remaining: number;
+  expires_on: string;
+  flag: "use_first" | "discard";
+}
+
+export interface PrepListPreviewData {
+  prepDate: string;
+  salesDate: string;
+  items: PreviewItem[];
+  components: PreviewComponent[];
+  stockFlags: PreviewStockFlag[];
+  labor: StationLabor[];
+}
+
+interface PrepListPreviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  preview: PrepListPreviewData | null;
+  onPublish: () => Promise<void>;
+  isPublishing: boolean;
+}
+
+const METHOD_LABELS: Record<CalculationMethod, string> = {
+  par_minus_on_hand: "Par − count",
+  par_override: "Event par",
+  forecast: "Forecast",
+  sales: "Sales",
+};
+
+const formatValue = (value: number | null) => (value == null ? "-" : value);
+
+// Raw need and batches behind a quantity that was rounded up, and any shortfall the day before
+const BatchNote = ({ item }: { item: PreviewItem | PreviewComponent }) => {
+  const notes = [
+    item.shortfall_quantity && `${item.shortfall_quantity} short the day before`,
+    item.in_date_quantity && `${item.in_date_quantity} still in date`,
+    item.raw_quantity !== item.quantity_needed && `from ${item.raw_quantity}`,
+    item.batch_count && `${item.batch_count} ${item.batch_count === 1 ? "batch" : "batches"}`,
+    item.container_quantity != null && item.batch_container && `≈ ${item.container_quantity} ${item.batch_container}`,
+    item.labor_minutes != null && `~${formatLaborMinutes(item.labor_minutes)} work`,
+  ].filter(Boolean);
+  if (notes.length === 0) return null;
+  return <div className="text-xs font-normal text-muted-foreground">{notes.join(" · ")}</div>;
+};
+
+const PrepListPreview = ({
+  open,
+  onOpenChange,
+  preview,
+  onPublish,
+  isPublishing,
+}: PrepListPreviewProps) => {
+  const items = [...(preview?.items || [])].sort(
+    (a, b) => a.station.localeCompare(b.station) || a.name.localeCompare(b.name)
+  );
+  const components = [...(preview?.components || [])].sort(
+    (a, b) => a.station.localeCompare(b.station) || a.name.localeCompare(b.name)
+  );
+  const stockFlags = [...(preview?.stockFlags || [])].sort(
+    (a, b) => a.station.localeCompare(b.station) || a.name.localeCompare(b.name)
+  );
+  const prepCount =
+    items.filter((item) => item.quantity_needed > 0 && !item.prepped_as_components).length + components.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            Prep List Preview{preview && ` — ${formatKitchenDate(preview.prepDate)}`}
+          </DialogTitle>
+          <DialogDescription>
+            Compare forecast, par and actual sales for each item before publishing the list to the kitchen.
+            {preview && ` Actual sales are from ${formatKitchenDate(preview.salesDate)}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview && <StationLaborSummary labor={preview.labor} />}
+
+        <ScrollArea className="flex-1 h-[55vh] border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Station</TableHead>
+                <TableHead className="text-right">Par</TableHead>
+                <TableHead className="text-right">On Hand</TableHead>
+                <TableHead className="text-right">Forecast</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+                <TableHead className="text-right">Prep</TableHead>
+                <TableHead>Basis</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    No items have par levels for this day.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((item) => (
+                  <TableRow
+                    key={item.menu_item_id}
+                    className={cn(item.quantity_needed === 0 && "text-muted-foreground")}
+                  >
+                    <TableCell className="font-medium">
+                      {item.name}
+                      {item.sub_recipes.length > 0 && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {item.sub_recipes.map((sub) => `${sub.name} × ${sub.batches}`).join(", ")}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="capitalize">{item.station}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {item.override_label && item.weekday_par_quantity !== item.par_quantity && (
+                        <span className="mr-1 text-xs text-muted-foreground line-through">
+                          {item.weekday_par_quantity ?? 0}
+                        </span>
+                      )}
+                      {item.par_quantity}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatValue(item.on_hand_quantity)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatValue(item.forecast_quantity)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatValue(item.sold_quantity)}</TableCell>
+                    <TableCell className="text-right font-mono font-semibold">
+                      {item.quantity_needed}
+                      <BatchNote item={item} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="outline" className="text-xs">
+                          {METHOD_LABELS[item.calculation_method]}
+                        </Badge>
+                        {item.override_label && (
+                          <Badge variant="secondary" className="text-xs">
+                            {item.override_label}
+                          </Badge>
+                        )}
+                        {item.prepped_as_components && (
+                          <Badge variant="secondary" className="text-xs">
+                            Components
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {stockFlags.length > 0 && (
+            <div className="border-t p-4">
+              <h4 className="mb-2 text-sm font-semibold">Use First / Discard</h4>
+              <div className="flex flex-wrap gap-2">
+                {stockFlags.map((lot) => (
+                  <Badge key={lot.id} variant={lot.flag === "discard" ? "destructive" : "secondary"}>
+                    {lot.flag === "discard" ? "Discard" : "Use first"}: {lot.name} {lot.quantity_remaining} {lot.unit}
+                    <span className="ml-1 capitalize opacity-70">({lot.station})</span>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {components.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Component</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead>For</TableHead>
+                  <TableHead className="text-right">Prep</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {components.map((component) => (
+                  <TableRow key={`${component.component_id}:${component.station}`}>
+                    <TableCell className="font-medium">
+                      {component.name}
+                      {component.sub_recipes.length > 0 && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {component.sub_recipes.map((sub) => `${sub.name} × ${sub.batches}`).join(", ")}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="capitalize">{component.station}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {component.source_items.map((source) => `${source.name} × ${source.portions}`).join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right font-mono font-semibold">
+                      {component.quantity_needed} {component.unit}
+                      <BatchNote item={component} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={onPublish} disabled={isPublishing || !preview}>
+            {isPublishing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Publish {prepCount} Items
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PrepListPreview;
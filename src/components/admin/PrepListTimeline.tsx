@@ -0,0 +1,159 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { History, Loader2, RefreshCw } from "lucide-react";
+import type { Database } from "@/integrations/supabase/types";
+import { formatPrepTime } from "@/lib/labels";
+
+type PrepEventType = Database["public"]["Enums"]["prep_event_type"];
+
+interface PrepEvent {
+  id: string;
+  prep_list_item_id: string;
+  item_name: string;
+  event_type: PrepEventType;
+  from_value: string | null;
+  to_value: string | null;
+  staff_member_id: string | null;
+  user_id: string | null;
+  created_at: string;
+}
+
+interface PrepListTimelineProps {
+  prepListId: string;
+  item: { id: string; name: string } | null; // Show one task's history instead of the whole list
+  onShowAll: () => void;
+}
+
+const EVENT_LABELS: Record<PrepEventType, string> = {
+  status: "Status",
+  quantity_needed: "Needed",
+  quantity_produced: "Made",
+  assignment: "Assigned",
+  created: "Added",
+  deleted: "Removed",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  in_progress: "In progress",
+  completed: "Done",
+};
+
+const PrepListTimeline = ({ prepListId, item, onShowAll }: PrepListTimelineProps) => {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<PrepEvent[]>([]);
+  const [staffNames, setStaffNames] = useState<Map<string, string>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+
+  const itemId = item?.id ?? null;
+
+  useEffect(() => {
+    fetchEvents();
+  }, [prepListId, itemId]);
+
+  const fetchEvents = async () => {
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from("prep_list_item_events")
+        .select("id, prep_list_item_id, item_name, event_type, from_value, to_value, staff_member_id, user_id, created_at")
+        .eq("prep_list_id", prepListId)
+        .order("created_at", { ascending: false });
+      if (itemId) query = query.eq("prep_list_item_id", itemId);
+
+      const [eventsRes, staffRes] = await Promise.all([
+        query,
+        supabase.from("staff_members").select("id, name"),
+      ]);
+
+      if (eventsRes.error) throw eventsRes.error;
+      if (staffRes.error) throw staffRes.error;
+
+      setEvents(eventsRes.data || []);
+      setStaffNames(new Map(staffRes.data?.map((member) => [member.id, member.name])));
+    } catch (error) {
+      console.error("Error fetching prep history:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load prep history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatValue = (type: PrepEventType, value: string | null) => {
+    if (type === "status") return value ? STATUS_LABELS[value] || value : "—";
+    if (type === "assignment") return value ? staffNames.get(value) || "Removed cook" : "Unassigned";
+    return value ?? "—";
+  };
+
+  // Cooks change tasks from the tablet; anything else came from an admin or the generator
+  const getActor = (event: PrepEvent) => {
+    if (event.staff_member_id) return staffNames.get(event.staff_member_id) || "Removed cook";
+    return event.user_id ? "Admin" : "System";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {item ? `History — ${item.name}` : "Prep List History"}
+          </CardTitle>
+          <CardDescription>
+            Every task added or removed, status change, quantity edit and reassignment, newest first, with who made
+            it
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {item && (
+            <Button variant="outline" size="sm" onClick={onShowAll}>
+              Whole List
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={fetchEvents} aria-label="Refresh history">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No changes yet</p>
+        ) : (
+          <ol className="relative space-y-4 border-l border-border pl-6">
+            {events.map((event) => (
+              <li key={event.id} className="relative">
+                <span className="absolute -left-[1.8rem] top-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                  <span className="font-medium">{event.item_name}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {EVENT_LABELS[event.event_type]}
+                  </Badge>
+                  <span>
+                    {formatValue(event.event_type, event.from_value)} → {formatValue(event.event_type, event.to_value)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {getActor(event)} · {formatPrepTime(event.created_at)}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PrepListTimeline;
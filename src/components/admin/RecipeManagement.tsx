@@ -20,11 +20,19 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Pencil, Trash2, Loader2, Upload, Eye, FileSpreadsheet, FolderUp } from "lucide-react";
 import * as XLSX from "xlsx";
 import RecipeImportPreview, { ParsedRecipe, ParsedIngredient } from "./RecipeImportPreview";
 import UnifiedImportWizard from "./UnifiedImportWizard";
+import { findCycle, getRolledUpCost, type RecipeNode } from "@/lib/recipeScaling";
 
 interface Ingredient {
   item: string;
@@ -32,6 +40,7 @@ interface Ingredient {
   measure?: string;
   unit_cost?: number;
   total_cost?: number;
+  recipe_id?: string | null; // Sub-recipe this ingredient is made from
 }
 
 interface Recipe {
@@ -44,6 +53,8 @@ interface Recipe {
   yield_amount?: string | null;
   yield_measure?: string | null;
   shelf_life?: string | null;
+  allergens?: string[];
+  page_reference?: string | null;
   tools?: string[] | null;
   vehicle?: string | null;
   recipe_cost?: number | null;
@@ -52,6 +63,8 @@ interface Recipe {
   food_cost_percent?: number | null;
 }
 
+const formatCost = (value: number | null) => (value == null ? "-" : `$${value.toFixed(2)}`);
+
 const RecipeManagement = () => {
   const { toast } = useToast();
   const [recipes, setRecipes] = useState<Recipe[]>([]);
@@ -75,6 +88,9 @@ const RecipeManagement = () => {
   const [method, setMethod] = useState("");
   const [platingNotes, setPlatingNotes] = useState("");
   const [fileUrl, setFileUrl] = useState("");
+  const [shelfLife, setShelfLife] = useState("");
+  const [allergens, setAllergens] = useState("");
+  const [pageReference, setPageReference] = useState("");
 
   useEffect(() => {
     fetchRecipes();
@@ -98,6 +114,8 @@ const RecipeManagement = () => {
         yield_amount: r.yield_amount,
         yield_measure: r.yield_measure,
         shelf_life: r.shelf_life,
+        allergens: r.allergens,
+        page_reference: r.page_reference,
         vehicle: r.vehicle,
         recipe_cost: r.recipe_cost,
         portion_cost: r.portion_cost,
@@ -136,6 +154,9 @@ const RecipeManagement = () => {
     setMethod("");
     setPlatingNotes("");
     setFileUrl("");
+    setShelfLife("");
+    setAllergens("");
+    setPageReference("");
     setEditingRecipe(null);
   };
 
@@ -147,6 +168,9 @@ const RecipeManagement = () => {
       setMethod(recipe.method || "");
       setPlatingNotes(recipe.plating_notes || "");
       setFileUrl(recipe.file_url || "");
+      setShelfLife(recipe.shelf_life || "");
+      setAllergens((recipe.allergens || []).join(", "));
+      setPageReference(recipe.page_reference || "");
     } else {
       resetForm();
     }
@@ -163,6 +187,28 @@ const RecipeManagement = () => {
     setIngredients(updated);
   };
 
+  const linkSubRecipe = (index: number, recipeId: string) => {
+    const subRecipe = recipes.find((r) => r.id === recipeId);
+    const updated = [...ingredients];
+    updated[index] = {
+      ...updated[index],
+      recipe_id: subRecipe ? subRecipe.id : null,
+      item: subRecipe && !updated[index].item.trim() ? subRecipe.name : updated[index].item,
+    };
+    setIngredients(updated);
+  };
+
+  const toRecipeNode = (recipe: Recipe): RecipeNode => ({
+    id: recipe.id,
+    name: recipe.name,
+    ingredients: recipe.ingredients || [],
+    yield_amount: recipe.yield_amount ?? null,
+    yield_measure: recipe.yield_measure ?? null,
+    recipe_cost: recipe.recipe_cost ?? null,
+  });
+
+  const recipeNodes = new Map(recipes.map((r) => [r.id, toRecipeNode(r)]));
+
   const removeIngredient = (index: number) => {
     if (ingredients.length > 1) {
       setIngredients(ingredients.filter((_, i) => i !== index));
@@ -330,12 +376,33 @@ const RecipeManagement = () => {
     setIsSaving(true);
     try {
       const validIngredients = ingredients.filter((i) => i.item.trim() || i.quantity.trim());
+
+      // A recipe can't end up inside itself through its sub-recipes
+      if (editingRecipe) {
+        const cycle = findCycle(editingRecipe.id, validIngredients, recipeNodes);
+        if (cycle) {
+          const names = cycle.map((id) => (id === editingRecipe.id ? name : recipeNodes.get(id)?.name || "Unknown"));
+          toast({
+            title: "Sub-recipe loop",
+            description: `${names.join(" → ")} would make this recipe an ingredient of itself`,
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+
       const recipeData = {
         name,
         ingredients: validIngredients.length > 0 ? JSON.stringify(validIngredients) : null,
         method: method.trim() || null,
         plating_notes: platingNotes.trim() || null,
         file_url: fileUrl.trim() || null,
+        shelf_life: shelfLife.trim() || null,
+        allergens: allergens
+          .split(",")
+          .map((a) => a.trim().toLowerCase())
+          .filter(Boolean),
+        page_reference: pageReference.trim() || null,
       };
 
       if (editingRecipe) {
@@ -467,6 +534,24 @@ const RecipeManagement = () => {
                       onChange={(e) => updateIngredient(idx, "quantity", e.target.value)}
                       className="w-32"
                     />
+                    <Select
+                      value={ing.recipe_id || "none"}
+                      onValueChange={(v) => linkSubRecipe(idx, v)}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue placeholder="Sub-recipe" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No sub-recipe</SelectItem>
+                        {recipes
+                          .filter((r) => r.id !== editingRecipe?.id)
+                          .map((r) => (
+                            <SelectItem key={r.id} value={r.id}>
+                              {r.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
                     <Button
                       type="button"
                       variant="ghost"
@@ -513,6 +598,37 @@ const RecipeManagement = () => {
                 />
               </div>
 
+              {/* Labeling and paper prep lists */}
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="shelfLife">Shelf Life</Label>
+                  <Input
+                    id="shelfLife"
+                    value={shelfLife}
+                    onChange={(e) => setShelfLife(e.target.value)}
+                    placeholder="e.g., 3 days, 48 hrs"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="allergens">Allergens</Label>
+                  <Input
+                    id="allergens"
+                    value={allergens}
+                    onChange={(e) => setAllergens(e.target.value)}
+                    placeholder="e.g., dairy, egg, gluten"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pageReference">Recipe Book Page</Label>
+                  <Input
+                    id="pageReference"
+                    value={pageReference}
+                    onChange={(e) => setPageReference(e.target.value)}
+                    placeholder="e.g., Binder 2, p. 14"
+                  />
+                </div>
+              </div>
+
               {/* File Upload */}
               <div className="space-y-2">
                 <Label>Recipe File (Optional)</Label>
@@ -557,6 +673,7 @@ const RecipeManagement = () => {
             <TableRow>
               <TableHead>Name</TableHead>
               <TableHead>Ingredients</TableHead>
+              <TableHead>Batch Cost</TableHead>
               <TableHead>Has File</TableHead>
               <TableHead className="w-32">Actions</TableHead>
             </TableRow>
@@ -564,7 +681,7 @@ const RecipeManagement = () => {
           <TableBody>
             {recipes.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
                   No recipes yet. Add your first recipe above.
                 </TableCell>
               </TableRow>
@@ -574,7 +691,11 @@ const RecipeManagement = () => {
                   <TableCell className="font-medium">{recipe.name}</TableCell>
                   <TableCell>
                     {recipe.ingredients?.length || 0} items
+                    {recipe.ingredients?.some((ing) => ing.recipe_id) && (
+                      <span className="ml-1 text-xs text-muted-foreground">(uses sub-recipes)</span>
+                    )}
                   </TableCell>
+                  <TableCell>{formatCost(getRolledUpCost(toRecipeNode(recipe), recipeNodes))}</TableCell>
                   <TableCell>
                     {recipe.file_url ? (
                       <a
@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { isValidIgnorePattern, type IgnoreMatchType, type IgnoreRule } from "@/lib/ignoreRules";
+
+export type SalesIgnoreRule = IgnoreRule & {
+  note: string | null;
+  is_active: boolean;
+};
+
+interface SalesIgnoreRulesProps {
+  rules: SalesIgnoreRule[];
+  onChange: () => void; // Reload the rules after a change
+}
+
+const MATCH_TYPES: { value: IgnoreMatchType; label: string; hint: string }[] = [
+  { value: "exact", label: "Is exactly", hint: "The whole line, ignoring case" },
+  { value: "prefix", label: "Starts with", hint: 'e.g. "ADD " for every add-on' },
+  { value: "regex", label: "Matches regex", hint: "A JavaScript regular expression, ignoring case" },
+];
+
+const SalesIgnoreRules = ({ rules, onChange }: SalesIgnoreRulesProps) => {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<SalesIgnoreRule | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Form state
+  const [pattern, setPattern] = useState("");
+  const [matchType, setMatchType] = useState<IgnoreMatchType>("exact");
+  const [note, setNote] = useState("");
+
+  const openDialog = (rule?: SalesIgnoreRule) => {
+    setEditingRule(rule ?? null);
+    setPattern(rule?.pattern ?? "");
+    setMatchType(rule?.match_type ?? "exact");
+    setNote(rule?.note ?? "");
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!isValidIgnorePattern(pattern, matchType)) {
+      toast({
+        title: "Error",
+        description: matchType === "regex" ? "That isn't a valid regular expression" : "Please enter the text to ignore",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const ruleData = {
+        // Prefixes keep their trailing space, it's part of the match
+        pattern: matchType === "prefix" ? pattern.trimStart() : pattern.trim(),
+        match_type: matchType,
+        note: note.trim() || null,
+      };
+
+      const { error } = editingRule
+        ? await supabase.from("sales_ignore_rules").update(ruleData).eq("id", editingRule.id)
+        : await supabase.from("sales_ignore_rules").insert(ruleData);
+
+      if (error) {
+        if (error.code === "23505") {
+          toast({
+            title: "Rule exists",
+            description: "There's already a rule for that pattern",
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      toast({ title: "Success", description: editingRule ? "Rule updated" : "Rule added" });
+      setIsDialogOpen(false);
+      onChange();
+    } catch (error) {
+      console.error("Error saving ignore rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save rule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (rule: SalesIgnoreRule, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from("sales_ignore_rules").update({ is_active: isActive }).eq("id", rule.id);
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error("Error updating ignore rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this rule? Matching lines will show up as sales again.")) return;
+
+    try {
+      const { error } = await supabase.from("sales_ignore_rules").delete().eq("id", id);
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error("Error deleting ignore rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Ignored Sales Lines</CardTitle>
+          <CardDescription>
+            Modifiers, service instructions and other POS lines that aren't dishes. Matching lines are set aside when a
+            sales report is parsed.
+          </CardDescription>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" onClick={() => openDialog()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rule
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingRule ? "Edit Rule" : "Add Rule"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Ignore lines that</Label>
+                <Select value={matchType} onValueChange={(value) => setMatchType(value as IgnoreMatchType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MATCH_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {MATCH_TYPES.find((type) => type.value === matchType)?.hint}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ignore-pattern">Pattern</Label>
+                <Input
+                  id="ignore-pattern"
+                  value={pattern}
+                  onChange={(e) => setPattern(e.target.value)}
+                  placeholder={matchType === "regex" ? "e.g., ^SUB " : "e.g., ADD SHRIMP"}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ignore-note">Note</Label>
+                <Input
+                  id="ignore-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g., Modifier"
+                />
+              </div>
+              <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingRule ? "Update" : "Create"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Match</TableHead>
+              <TableHead>Pattern</TableHead>
+              <TableHead>Note</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="w-24">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No rules yet. Every line on the sales report will be treated as a dish.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{MATCH_TYPES.find((type) => type.value === rule.match_type)?.label}</TableCell>
+                  <TableCell className="font-mono text-sm">{rule.pattern}</TableCell>
+                  <TableCell className="text-muted-foreground">{rule.note || "-"}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.is_active}
+                      onCheckedChange={(checked) => toggleActive(rule, checked)}
+                      aria-label={rule.is_active ? "Turn rule off" : "Turn rule on"}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(rule)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(rule.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SalesIgnoreRules;
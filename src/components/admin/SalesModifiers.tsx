@@ -0,0 +1,311 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Combobox } from "@/components/ui/combobox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import type { SalesModifier } from "@/lib/modifiers";
+
+export type SalesModifierRow = SalesModifier & {
+  is_active: boolean;
+  menu_items: { name: string; unit: string } | null;
+  prep_components: { name: string; unit: string } | null;
+};
+
+interface SalesModifiersProps {
+  modifiers: SalesModifierRow[];
+  onChange: () => void; // Reload the mappings after a change
+}
+
+interface Target {
+  value: string; // "item:<id>" or "component:<id>"
+  label: string;
+  unit: string;
+}
+
+const getTargetValue = (modifier: SalesModifier) =>
+  modifier.component_id ? `component:${modifier.component_id}` : `item:${modifier.menu_item_id}`;
+
+const SalesModifiers = ({ modifiers, onChange }: SalesModifiersProps) => {
+  const { toast } = useToast();
+  const [targets, setTargets] = useState<Target[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingModifier, setEditingModifier] = useState<SalesModifierRow | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState("");
+  const [quantity, setQuantity] = useState("1");
+
+  useEffect(() => {
+    fetchTargets();
+  }, []);
+
+  // Menu items and prep components a modifier can use up
+  const fetchTargets = async () => {
+    try {
+      const [itemsRes, componentsRes] = await Promise.all([
+        supabase.from("menu_items").select("id, name, unit").eq("is_active", true).order("name"),
+        supabase.from("prep_components").select("id, name, unit").eq("is_active", true).order("name"),
+      ]);
+
+      if (itemsRes.error) throw itemsRes.error;
+      if (componentsRes.error) throw componentsRes.error;
+      setTargets([
+        ...(itemsRes.data || []).map((item) => ({ value: `item:${item.id}`, label: item.name, unit: item.unit })),
+        ...(componentsRes.data || []).map((component) => ({
+          value: `component:${component.id}`,
+          label: `${component.name} (component)`,
+          unit: component.unit,
+        })),
+      ]);
+    } catch (error) {
+      console.error("Error fetching modifier targets:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load menu items and components",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDialog = (modifier?: SalesModifierRow) => {
+    setEditingModifier(modifier ?? null);
+    setName(modifier?.name ?? "");
+    setTarget(modifier ? getTargetValue(modifier) : "");
+    setQuantity(String(modifier?.quantity_per_unit ?? 1));
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const quantityPerUnit = Number(quantity);
+    if (!name.trim() || !target || !(quantityPerUnit > 0)) {
+      toast({
+        title: "Error",
+        description: "Enter the POS name, what it uses and how much",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const [kind, id] = target.split(":");
+      const modifierData = {
+        name: name.trim(),
+        menu_item_id: kind === "item" ? id : null,
+        component_id: kind === "component" ? id : null,
+        quantity_per_unit: quantityPerUnit,
+      };
+
+      const { error } = editingModifier
+        ? await supabase.from("sales_modifiers").update(modifierData).eq("id", editingModifier.id)
+        : await supabase.from("sales_modifiers").insert(modifierData);
+
+      if (error) {
+        // Unique violation: the POS name is already mapped
+        if (error.code === "23505") {
+          toast({
+            title: "Modifier exists",
+            description: `"${modifierData.name}" is already mapped`,
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      toast({ title: "Success", description: editingModifier ? "Modifier updated" : "Modifier added" });
+      setIsDialogOpen(false);
+      onChange();
+    } catch (error) {
+      console.error("Error saving modifier:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save modifier",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (modifier: SalesModifierRow, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from("sales_modifiers").update({ is_active: isActive }).eq("id", modifier.id);
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error("Error updating modifier:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update modifier",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this modifier? Its saved sales are deleted with it.")) return;
+
+    try {
+      const { error } = await supabase.from("sales_modifiers").delete().eq("id", id);
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error("Error deleting modifier:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete modifier",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const targetUnit = targets.find((t) => t.value === target)?.unit;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Sales Modifiers</CardTitle>
+          <CardDescription>
+            POS add-ons like "ADD SALMON" and what each one uses up. Modifiers sold are saved with the sales and counted
+            toward the dish or component's prep.
+          </CardDescription>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" onClick={() => openDialog()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Modifier
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingModifier ? "Edit Modifier" : "Add Modifier"}</DialogTitle>
+              <DialogDescription>Each one sold uses this much of a dish or prep component.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="modifier-name">POS Name</Label>
+                <Input
+                  id="modifier-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., ADD SALMON"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Uses</Label>
+                <Combobox
+                  value={target}
+                  onValueChange={setTarget}
+                  placeholder="Select menu item or component..."
+                  searchPlaceholder="Search..."
+                  emptyText="Nothing found"
+                  options={targets.map((t) => ({ value: t.value, label: t.label }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modifier-quantity">Per Modifier{targetUnit ? ` (${targetUnit})` : ""}</Label>
+                <Input
+                  id="modifier-quantity"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingModifier ? "Update" : "Create"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>POS Name</TableHead>
+              <TableHead>Uses</TableHead>
+              <TableHead>Per Modifier</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="w-24">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {modifiers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No modifiers mapped. Modifier lines are ignored or left unmatched.
+                </TableCell>
+              </TableRow>
+            ) : (
+              modifiers.map((modifier) => {
+                const used = modifier.menu_items || modifier.prep_components;
+                return (
+                  <TableRow key={modifier.id}>
+                    <TableCell className="font-mono text-sm">{modifier.name}</TableCell>
+                    <TableCell className="font-medium">
+                      {used?.name || "Unknown"}
+                      {modifier.prep_components && (
+                        <span className="ml-1 text-xs text-muted-foreground">(component)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {modifier.quantity_per_unit} {used?.unit}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={modifier.is_active}
+                        onCheckedChange={(checked) => toggleActive(modifier, checked)}
+                        aria-label={modifier.is_active ? "Turn modifier off" : "Turn modifier on"}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(modifier)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(modifier.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SalesModifiers;
@@ -14,9 +14,35 @@ import {
 } from "@/components/ui/table";
 import { Combobox } from "@/components/ui/combobox";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, Loader2, FileText, Sparkles, Calendar, Check, X } from "lucide-react";
-import { findBestMatch, getConfidenceColor, getConfidenceLabel, type MatchResult } from "@/lib/itemMatching";
+import { Upload, Loader2, FileText, Sparkles, Calendar, Check, X, Eye, EyeOff, PlusCircle } from "lucide-react";
+import {
+  findAliasMatch,
+  findBestMatch,
+  getAliasKey,
+  getConfidenceColor,
+  getConfidenceLabel,
+  type ItemAlias,
+  type MatchResult,
+} from "@/lib/itemMatching";
+import { addDays, formatKitchenDate, getKitchenToday } from "@/lib/kitchenDate";
+import { parseSalesReportCsv, parseSalesReportRows, type ReportCell } from "@/lib/salesReport";
+import { applyIgnoreRules, describeIgnoreRule, findIgnoreRule, type IgnoreRule } from "@/lib/ignoreRules";
+import { getModifierUsage, splitModifierSales, type ModifierSale } from "@/lib/modifiers";
+import * as XLSX from "xlsx";
+import PrepListPreview, { type PrepListPreviewData } from "./PrepListPreview";
+import SalesIgnoreRules, { type SalesIgnoreRule } from "./SalesIgnoreRules";
+import SalesModifiers, { type SalesModifierRow } from "./SalesModifiers";
+import SalesUploadHistory, { type SalesUploadRecord } from "./SalesUploadHistory";
+import type { Database } from "@/integrations/supabase/types";
 
 interface ParsedItem {
   name: string;
@@ -25,13 +51,46 @@ interface ParsedItem {
   matched_item_id?: string;
   matched_item_name?: string;
   match_confidence?: MatchResult['confidence'];
+  manually_matched?: boolean; // Saved as an alias when the sales data is saved
+  ignored_by?: IgnoreRule; // Ignore rule that set the line aside; it isn't saved
 }
 
+// A POS modifier line, saved as modifier sales rather than dish sales
+type ModifierLine = ModifierSale<ParsedItem, SalesModifierRow>;
+
 interface MenuItem {
   id: string;
   name: string;
 }
 
+type SalesReportParser = Database["public"]["Enums"]["sales_report_parser"];
+
+const FORECAST_WEEK_OPTIONS = [4, 6, 8, 12];
+const UPLOAD_HISTORY_LIMIT = 30;
+
+// What an archived upload parsed into, stored with it for the upload history
+const getParseResult = (items: ParsedItem[], modifierLines: ModifierLine[]) => ({
+  parse_result: {
+    items: items
+      .filter((item) => !item.ignored_by)
+      .map((item) => ({
+        name: item.original_name || item.name,
+        quantity: item.quantity,
+        menu_item_id: item.matched_item_id ?? null,
+      })),
+    modifiers: modifierLines.map((line) => ({
+      name: line.original_name || line.name,
+      quantity: line.quantity,
+      modifier_id: line.modifier.id,
+    })),
+    ignored: items
+      .filter((item) => item.ignored_by)
+      .map((item) => ({ name: item.original_name || item.name, quantity: item.quantity, rule_id: item.ignored_by!.id })),
+  },
+  line_count: items.length + modifierLines.length,
+  matched_count: items.filter((item) => item.matched_item_id).length,
+});
+
 const SalesUpload = () => {
   const { toast } = useToast();
   const [isUploading, setIsUploading] = useState(false);
@@ -39,36 +98,140 @@ const SalesUpload = () => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [file, setFile] = useState<File | null>(null);
   const [parsedItems, setParsedItems] = useState<ParsedItem[]>([]);
+  const [modifierLines, setModifierLines] = useState<ModifierLine[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
-  const [salesDate, setSalesDate] = useState(() => {
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    return yesterday.toISOString().split("T")[0];
-  });
+  const [aliases, setAliases] = useState<ItemAlias[]>([]);
+  const [ignoreRules, setIgnoreRules] = useState<SalesIgnoreRule[]>([]);
+  const [modifiers, setModifiers] = useState<SalesModifierRow[]>([]);
+  const [uploads, setUploads] = useState<SalesUploadRecord[]>([]);
+  // Archived upload the lines under review came from
+  const [currentUpload, setCurrentUpload] = useState<{ id: string; isReparse: boolean } | null>(null);
+  const [reparsingId, setReparsingId] = useState<string | null>(null);
+  const [salesDate, setSalesDate] = useState(() => addDays(getKitchenToday(), -1));
+  const [targetDate, setTargetDate] = useState(() => getKitchenToday());
+  const [useForecast, setUseForecast] = useState(true);
+  const [forecastWeeks, setForecastWeeks] = useState(6);
+  const [explodeSubRecipes, setExplodeSubRecipes] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<PrepListPreviewData | null>(null);
 
   useEffect(() => {
     fetchMenuItems();
+    fetchIgnoreRules();
+    fetchModifiers();
+    fetchUploads();
   }, []);
 
   const fetchMenuItems = async () => {
+    try {
+      const [itemsRes, aliasesRes] = await Promise.all([
+        supabase.from("menu_items").select("id, name").eq("is_active", true),
+        supabase.from("menu_item_aliases").select("alias, menu_item_id"),
+      ]);
+
+      if (itemsRes.error) throw itemsRes.error;
+      if (aliasesRes.error) throw aliasesRes.error;
+      setMenuItems(itemsRes.data || []);
+      setAliases(aliasesRes.data || []);
+    } catch (error) {
+      console.error("Error fetching menu items:", error);
+    }
+  };
+
+  const fetchIgnoreRules = async () => {
     try {
       const { data, error } = await supabase
-        .from("menu_items")
-        .select("id, name")
-        .eq("is_active", true);
+        .from("sales_ignore_rules")
+        .select("id, pattern, match_type, note, is_active")
+        .order("created_at");
 
       if (error) throw error;
-      setMenuItems(data || []);
+
+      const rules = data || [];
+      setIgnoreRules(rules);
+      // Re-check the lines under review against the changed rules
+      const activeRules = rules.filter((rule) => rule.is_active);
+      setParsedItems((prev) =>
+        prev.map((item) => {
+          const rule =
+            (item.original_name ? findIgnoreRule(item.original_name, activeRules) : null) ??
+            findIgnoreRule(item.name, activeRules);
+          if (rule) {
+            return { ...item, ignored_by: rule, matched_item_id: undefined, matched_item_name: undefined, match_confidence: 'none' as const };
+          }
+          return item.ignored_by ? matchItem({ ...item, ignored_by: undefined }) : item;
+        })
+      );
     } catch (error) {
-      console.error("Error fetching menu items:", error);
+      console.error("Error fetching ignore rules:", error);
+    }
+  };
+
+  const fetchModifiers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("sales_modifiers")
+        .select("id, name, menu_item_id, component_id, quantity_per_unit, is_active, menu_items(name, unit), prep_components(name, unit)")
+        .order("name");
+
+      if (error) throw error;
+
+      const rows = data || [];
+      setModifiers(rows);
+      // Move the lines under review between sales and modifiers to match the changed mappings
+      const activeModifiers = rows.filter((modifier) => modifier.is_active);
+      const fromSales = splitModifierSales(parsedItems, activeModifiers);
+      const fromModifiers = splitModifierSales(modifierLines.map(({ modifier, ...line }) => line), activeModifiers);
+      setModifierLines([...fromModifiers.modifiers, ...fromSales.modifiers]);
+      setParsedItems([...fromSales.items, ...fromModifiers.items.map(reviewLine)]);
+    } catch (error) {
+      console.error("Error fetching modifiers:", error);
     }
   };
 
+  const fetchUploads = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("sales_uploads")
+        .select("id, file_name, file_path, sales_date, parser, line_count, matched_count, saved_at, reparsed_at, uploaded_by_email, created_at")
+        .order("created_at", { ascending: false })
+        .limit(UPLOAD_HISTORY_LIMIT);
+
+      if (error) throw error;
+      setUploads(data || []);
+    } catch (error) {
+      console.error("Error fetching sales uploads:", error);
+    }
+  };
+
+  // Match a parsed item to a menu item: a saved alias for the POS name first,
+  // then fuzzy matching on the name
+  const matchItem = (item: ParsedItem): ParsedItem => {
+    const matchResult =
+      (item.original_name && findAliasMatch(item.original_name, menuItems, aliases)) ||
+      findBestMatch(item.name, menuItems, aliases);
+    return {
+      ...item,
+      matched_item_id: matchResult.item?.id,
+      matched_item_name: matchResult.item?.name,
+      match_confidence: matchResult.confidence,
+    };
+  };
+
+  // Set a sales line aside when an active ignore rule matches it, otherwise match it
+  const reviewLine = (item: ParsedItem): ParsedItem => {
+    const line = { ...item, ignored_by: undefined, manually_matched: false };
+    const { ignored } = applyIgnoreRules([line], ignoreRules.filter((rule) => rule.is_active));
+    return ignored.length > 0 ? { ...ignored[0], match_confidence: 'none' as const } : matchItem(line);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
       setFile(selectedFile);
       setParsedItems([]);
+      setModifierLines([]);
+      setCurrentUpload(null);
     }
   };
 
@@ -86,6 +249,144 @@ const SalesUpload = () => {
     });
   };
 
+  // PDFs and layouts the report parser doesn't recognize go to the AI. Lines its
+  // ignore rules set aside come back with the rest, so mapped modifiers can be
+  // picked out first. Returns null when a rate limit or credit problem has been
+  // shown instead.
+  const parseWithAi = async (
+    fileContent: string,
+    fileName: string,
+    isBase64: boolean
+  ): Promise<ParsedItem[] | null> => {
+    const response = await supabase.functions.invoke("parse-sales", {
+      body: {
+        fileContent,
+        fileName,
+        menuItems: menuItems.map((m) => m.name),
+        // Known POS names, so the AI answers with the menu item's name
+        aliases: aliases.flatMap((a) => {
+          const menuItem = menuItems.find((m) => m.id === a.menu_item_id);
+          return menuItem ? [{ alias: a.alias, menu_item: menuItem.name }] : [];
+        }),
+        isBase64,
+      },
+    });
+
+    // Handle rate limit and credit errors
+    if (response.error) {
+      const errorMessage = response.error.message || "";
+      if (errorMessage.includes("429") || errorMessage.includes("Rate limit")) {
+        toast({
+          title: "Rate limit exceeded",
+          description: "Please wait a moment and try again.",
+          variant: "destructive",
+        });
+        return null;
+      }
+      if (errorMessage.includes("402") || errorMessage.includes("credits")) {
+        toast({
+          title: "AI credits exhausted",
+          description: "Please add credits to continue using AI features.",
+          variant: "destructive",
+        });
+        return null;
+      }
+      throw response.error;
+    }
+
+    const ignored: ParsedItem[] = response.data.ignored || [];
+    return [...(response.data.items || []), ...ignored.map(({ ignored_by, ...item }) => item)];
+  };
+
+  // Read a sales report: CSV and Excel exports of the POS Item Sales Report are
+  // parsed here, anything else by the AI. Returns null when the AI couldn't run.
+  const readSalesFile = async (
+    file: File
+  ): Promise<{ lines: ParsedItem[]; parser: SalesReportParser } | null> => {
+    const fileName = file.name.toLowerCase();
+    const menuNames = menuItems.map((m) => m.name);
+    let fileContent: string;
+    let isBase64 = false;
+    // Set when the file is a CSV or Excel export of the POS Item Sales Report
+    let reportItems: ParsedItem[] | null = null;
+
+    // Handle PDF files with base64 encoding
+    if (fileName.endsWith('.pdf')) {
+      fileContent = await readFileAsBase64(file);
+      isBase64 = true;
+    } else if (fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) {
+      // Read the sheets here; the AI gets them as CSV if none is the sales report
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+      for (const sheetName of workbook.SheetNames) {
+        const rows = XLSX.utils.sheet_to_json<ReportCell[]>(workbook.Sheets[sheetName], { header: 1 });
+        reportItems = parseSalesReportRows(rows, menuNames);
+        if (reportItems) break;
+      }
+      fileContent = workbook.SheetNames.map((sheetName) => XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName])).join("\n\n");
+    } else {
+      // For text-based files (CSV, TXT, etc.)
+      fileContent = await file.text();
+      reportItems = parseSalesReportCsv(fileContent, menuNames);
+    }
+
+    if (reportItems) return { lines: reportItems, parser: "pos_report" };
+    const lines = await parseWithAi(fileContent, file.name, isBase64);
+    return lines ? { lines, parser: "ai" } : null;
+  };
+
+  // Put parsed lines up for review with the current modifiers, ignore rules and aliases
+  const reviewParsedLines = (lines: ParsedItem[]) => {
+    // Mapped modifiers come out first, even when an ignore rule also matches them
+    const split = splitModifierSales(lines, modifiers.filter((modifier) => modifier.is_active));
+    const parsed = applyIgnoreRules(split.items, ignoreRules.filter((rule) => rule.is_active));
+
+    const matchedItems = parsed.items.map(matchItem);
+    // Ignored lines stay in the review table, below the sales, to show what was set aside
+    const reviewedItems = [...matchedItems, ...parsed.ignored.map((item) => ({ ...item, match_confidence: 'none' as const }))];
+    setParsedItems(reviewedItems);
+    setModifierLines(split.modifiers);
+
+    const matchedCount = matchedItems.filter(i => i.matched_item_id).length;
+    return {
+      items: reviewedItems,
+      modifiers: split.modifiers,
+      summary: `Found ${matchedItems.length} items, ${matchedCount} matched to menu${split.modifiers.length ? `; ${split.modifiers.length} modifiers` : ""}${parsed.ignored.length ? `; ${parsed.ignored.length} lines ignored` : ""}`,
+    };
+  };
+
+  // Archive an uploaded report in the sales-files bucket with its parse result.
+  // Returns the record id; a failure here doesn't stop the sales being reviewed.
+  const archiveUpload = async (
+    file: File,
+    parser: SalesReportParser,
+    items: ParsedItem[],
+    modifierSales: ModifierLine[]
+  ): Promise<string | null> => {
+    const filePath = `${salesDate}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, "_")}`;
+    try {
+      const { error: uploadError } = await supabase.storage.from("sales-files").upload(filePath, file);
+      if (uploadError) throw uploadError;
+
+      const { data, error } = await supabase
+        .from("sales_uploads")
+        .insert({ file_path: filePath, file_name: file.name, sales_date: salesDate, parser, ...getParseResult(items, modifierSales) })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      fetchUploads();
+      return data.id;
+    } catch (error) {
+      console.error("Error archiving sales file:", error);
+      toast({
+        title: "Report not archived",
+        description: "The file couldn't be saved to the upload history, so it can't be re-parsed later",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
   const handleUploadAndParse = async () => {
     if (!file) {
       toast({
@@ -98,79 +399,69 @@ const SalesUpload = () => {
 
     setIsParsing(true);
     try {
-      let fileContent: string;
-      let isBase64 = false;
-
-      // Handle PDF files with base64 encoding
-      if (file.name.toLowerCase().endsWith('.pdf')) {
-        fileContent = await readFileAsBase64(file);
-        isBase64 = true;
-      } else {
-        // For text-based files (CSV, TXT, etc.)
-        fileContent = await file.text();
-      }
+      const result = await readSalesFile(file);
+      if (!result) return;
+
+      const reviewed = reviewParsedLines(result.lines);
+      toast({ title: "Parsing complete", description: reviewed.summary });
 
-      // Send to AI for parsing
-      const response = await supabase.functions.invoke("parse-sales", {
-        body: {
-          fileContent,
-          fileName: file.name,
-          menuItems: menuItems.map((m) => m.name),
-          isBase64,
-        },
+      const uploadId = await archiveUpload(file, result.parser, reviewed.items, reviewed.modifiers);
+      setCurrentUpload(uploadId ? { id: uploadId, isReparse: false } : null);
+    } catch (error) {
+      console.error("Parse error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to parse sales file. Please try again.",
+        variant: "destructive",
       });
+    } finally {
+      setIsParsing(false);
+    }
+  };
 
-      // Handle rate limit and credit errors
-      if (response.error) {
-        const errorMessage = response.error.message || "";
-        if (errorMessage.includes("429") || errorMessage.includes("Rate limit")) {
-          toast({
-            title: "Rate limit exceeded",
-            description: "Please wait a moment and try again.",
-            variant: "destructive",
-          });
-          return;
-        }
-        if (errorMessage.includes("402") || errorMessage.includes("credits")) {
-          toast({
-            title: "AI credits exhausted",
-            description: "Please add credits to continue using AI features.",
-            variant: "destructive",
-          });
-          return;
-        }
-        throw response.error;
-      }
+  // Run an archived report through the current parser and rules again. Saving
+  // the result replaces the sales saved for that day.
+  const handleReparse = async (upload: SalesUploadRecord) => {
+    setReparsingId(upload.id);
+    try {
+      const { data: blob, error: downloadError } = await supabase.storage
+        .from("sales-files")
+        .download(upload.file_path);
 
-      const parsed: ParsedItem[] = response.data.items || [];
+      if (downloadError) throw downloadError;
 
-      // Match parsed items to menu items using fuzzy matching
-      const matchedItems = parsed.map((item) => {
-        const matchResult = findBestMatch(item.name, menuItems);
-        return {
-          ...item,
-          matched_item_id: matchResult.item?.id,
-          matched_item_name: matchResult.item?.name,
-          match_confidence: matchResult.confidence,
-        };
-      });
+      const result = await readSalesFile(new File([blob], upload.file_name));
+      if (!result) return;
+
+      const reviewed = reviewParsedLines(result.lines);
+      const { error } = await supabase
+        .from("sales_uploads")
+        .update({
+          parser: result.parser,
+          reparsed_at: new Date().toISOString(),
+          ...getParseResult(reviewed.items, reviewed.modifiers),
+        })
+        .eq("id", upload.id);
+
+      if (error) throw error;
 
-      setParsedItems(matchedItems);
-      
-      const matchedCount = matchedItems.filter(i => i.matched_item_id).length;
+      setFile(null);
+      setSalesDate(upload.sales_date);
+      setCurrentUpload({ id: upload.id, isReparse: true });
+      fetchUploads();
       toast({
-        title: "Parsing complete",
-        description: `Found ${matchedItems.length} items, ${matchedCount} matched to menu`,
+        title: "Report re-parsed",
+        description: `${reviewed.summary}. Saving replaces the sales for ${formatKitchenDate(upload.sales_date)}.`,
       });
     } catch (error) {
-      console.error("Parse error:", error);
+      console.error("Re-parse error:", error);
       toast({
         title: "Error",
-        description: "Failed to parse sales file. Please try again.",
+        description: "Failed to re-parse sales file",
         variant: "destructive",
       });
     } finally {
-      setIsParsing(false);
+      setReparsingId(null);
     }
   };
 
@@ -185,6 +476,7 @@ const SalesUpload = () => {
             matched_item_id: undefined,
             matched_item_name: undefined,
             match_confidence: 'none' as const,
+            manually_matched: false,
           };
         }
         
@@ -194,14 +486,70 @@ const SalesUpload = () => {
           matched_item_id: menuItemId,
           matched_item_name: menuItem?.name,
           match_confidence: 'exact' as const, // Manual selection is treated as exact
+          manually_matched: true,
         };
       })
     );
   };
 
+  // Remember POS names matched by hand so later uploads match them straight away.
+  // Returns how many were saved; a failure here doesn't undo the sales data.
+  const saveManualMatches = async (items: ParsedItem[]) => {
+    const learned = new Map<string, { alias: string; menu_item_id: string; source: "manual_match" }>();
+    items.forEach((item) => {
+      const posName = (item.original_name || item.name).trim();
+      if (!item.manually_matched || !item.matched_item_id || !posName) return;
+      if (getAliasKey(posName) === getAliasKey(item.matched_item_name || "")) return;
+      learned.set(getAliasKey(posName), { alias: posName, menu_item_id: item.matched_item_id, source: "manual_match" });
+    });
+    if (learned.size === 0) return 0;
+
+    const { error } = await supabase
+      .from("menu_item_aliases")
+      .upsert(Array.from(learned.values()), { onConflict: "alias_key" });
+
+    if (error) {
+      console.error("Error saving aliases:", error);
+      toast({
+        title: "Matches not remembered",
+        description: "Sales data was saved, but the manual matches couldn't be saved as aliases",
+        variant: "destructive",
+      });
+      return 0;
+    }
+
+    setAliases((prev) => [
+      ...prev.filter((a) => !learned.has(getAliasKey(a.alias))),
+      ...Array.from(learned.values()),
+    ]);
+    return learned.size;
+  };
+
+  // Add an exact ignore rule for a POS line so later uploads leave it out too
+  const handleAlwaysIgnore = async (item: ParsedItem) => {
+    const pattern = (item.original_name || item.name).trim();
+    try {
+      const { error } = await supabase
+        .from("sales_ignore_rules")
+        .upsert({ pattern, match_type: "exact", is_active: true }, { onConflict: "match_type,pattern" });
+
+      if (error) throw error;
+
+      toast({ title: "Line ignored", description: `"${pattern}" will be left out of sales uploads` });
+      fetchIgnoreRules();
+    } catch (error) {
+      console.error("Error adding ignore rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add ignore rule",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSaveSalesData = async () => {
     const matchedItems = parsedItems.filter((item) => item.matched_item_id);
-    if (matchedItems.length === 0) {
+    if (matchedItems.length === 0 && modifierLines.length === 0) {
       toast({
         title: "No matched items",
         description: "No items could be matched to your menu",
@@ -227,19 +575,74 @@ const SalesUpload = () => {
         quantity_sold,
       }));
 
-      const { error } = await supabase.from("sales_data").upsert(salesData, {
-        onConflict: "menu_item_id,sales_date",
+      if (salesData.length > 0) {
+        const { error } = await supabase.from("sales_data").upsert(salesData, {
+          onConflict: "menu_item_id,sales_date",
+        });
+
+        if (error) throw error;
+      }
+
+      // Modifiers sold are saved per modifier; the generator works out what they use
+      const modifierMap = new Map<string, number>();
+      modifierLines.forEach((line) => {
+        modifierMap.set(line.modifier.id, (modifierMap.get(line.modifier.id) || 0) + line.quantity);
       });
 
-      if (error) throw error;
+      if (modifierMap.size > 0) {
+        const { error } = await supabase.from("modifier_sales").upsert(
+          Array.from(modifierMap.entries()).map(([modifier_id, quantity_sold]) => ({
+            modifier_id,
+            sales_date: salesDate,
+            quantity_sold,
+          })),
+          { onConflict: "modifier_id,sales_date" }
+        );
+
+        if (error) throw error;
+      }
+
+      // A re-parse corrects the day, so sales the report no longer has are removed
+      if (currentUpload?.isReparse) {
+        let staleSales = supabase.from("sales_data").delete().eq("sales_date", salesDate);
+        if (salesData.length > 0) {
+          staleSales = staleSales.not("menu_item_id", "in", `(${salesData.map((s) => s.menu_item_id).join(",")})`);
+        }
+        let staleModifiers = supabase.from("modifier_sales").delete().eq("sales_date", salesDate);
+        if (modifierMap.size > 0) {
+          staleModifiers = staleModifiers.not("modifier_id", "in", `(${Array.from(modifierMap.keys()).join(",")})`);
+        }
+
+        const [salesRes, modifiersRes] = await Promise.all([staleSales, staleModifiers]);
+        if (salesRes.error) throw salesRes.error;
+        if (modifiersRes.error) throw modifiersRes.error;
+      }
+
+      if (currentUpload) {
+        const { error } = await supabase
+          .from("sales_uploads")
+          .update({
+            sales_date: salesDate,
+            saved_at: new Date().toISOString(),
+            ...getParseResult(parsedItems, modifierLines),
+          })
+          .eq("id", currentUpload.id);
+
+        if (error) console.error("Error updating sales upload:", error);
+        fetchUploads();
+      }
+
+      const learnedCount = await saveManualMatches(matchedItems);
 
       toast({
         title: "Success",
-        description: `Saved sales data for ${salesData.length} unique items`,
+        description: `${currentUpload?.isReparse ? `Replaced sales for ${formatKitchenDate(salesDate)} with` : "Saved sales data for"} ${salesData.length} unique items${modifierMap.size ? ` and ${modifierMap.size} modifiers` : ""}${learnedCount ? `; remembered ${learnedCount} POS names for next time` : ""}`,
       });
 
       setFile(null);
       setParsedItems([]);
+      setModifierLines([]);
+      setCurrentUpload(null);
     } catch (error) {
       console.error("Save error:", error);
       toast({
@@ -252,19 +655,27 @@ const SalesUpload = () => {
     }
   };
 
-  const handleGeneratePrepList = async () => {
+  const handleGeneratePrepList = async (days = 1) => {
     setIsGenerating(true);
     try {
       const response = await supabase.functions.invoke("generate-prep-list", {
-        body: { salesDate },
+        // Each day of a multi-day run is based on the sales from the day before it
+        body: { targetDate, days, salesDate: days > 1 ? undefined : salesDate, useForecast, forecastWeeks, explodeSubRecipes },
       });
 
       if (response.error) throw response.error;
 
+      const { itemCount, countedCount, forecastCount, parOverrideCount, salesCount, overrideCount, componentCount, shortfallCount } =
+        response.data;
+      const stockFlagCount: number = response.data.lists?.[0]?.stockFlags?.length || 0;
+      const listLabel = days > 1
+        ? `${days} prep lists starting ${formatKitchenDate(targetDate)}`
+        : `prep list for ${formatKitchenDate(targetDate)}`;
       toast({
         title: "Prep list generated",
-        description: `Created prep list with ${response.data.itemCount} items`,
+        description: `Created ${listLabel} with ${itemCount} items (${countedCount} from on-hand counts, ${forecastCount} from forecast, ${salesCount} from sales${parOverrideCount ? `, ${parOverrideCount} at event pars` : ""}${componentCount ? `, ${componentCount} components` : ""})${overrideCount ? `; ${overrideCount} event pars applied` : ""}${stockFlagCount ? `; ${stockFlagCount} prepped items to use first or discard` : ""}${shortfallCount ? `; ${shortfallCount} came up short the day before` : ""}`,
       });
+      setPreview(null);
     } catch (error) {
       console.error("Generate error:", error);
       toast({
@@ -277,8 +688,38 @@ const SalesUpload = () => {
     }
   };
 
+  const handlePreviewPrepList = async () => {
+    setIsPreviewing(true);
+    try {
+      const response = await supabase.functions.invoke("generate-prep-list", {
+        body: { targetDate, salesDate, useForecast, forecastWeeks, explodeSubRecipes, preview: true },
+      });
+
+      if (response.error) throw response.error;
+
+      setPreview({
+        prepDate: targetDate,
+        salesDate,
+        items: response.data.lists?.[0]?.items || [],
+        components: response.data.lists?.[0]?.components || [],
+        stockFlags: response.data.lists?.[0]?.stockFlags || [],
+        labor: response.data.lists?.[0]?.labor || [],
+      });
+    } catch (error) {
+      console.error("Preview error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to preview prep list",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const matchedCount = parsedItems.filter((i) => i.matched_item_id).length;
-  const unmatchedCount = parsedItems.length - matchedCount;
+  const ignoredCount = parsedItems.filter((i) => i.ignored_by).length;
+  const unmatchedCount = parsedItems.length - matchedCount - ignoredCount;
 
   return (
     <div className="space-y-6">
@@ -290,7 +731,8 @@ const SalesUpload = () => {
             Upload Sales Report
           </CardTitle>
           <CardDescription>
-            Upload a PDF or Excel file with yesterday's sales data. AI will parse and extract menu items.
+            Upload yesterday's POS Item Sales Report. CSV and Excel exports are read directly; PDFs and other
+            layouts are parsed with AI. Every report is kept in the upload history below.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -337,7 +779,7 @@ const SalesUpload = () => {
                 ) : (
                   <>
                     <Sparkles className="mr-2 h-4 w-4" />
-                    Parse with AI
+                    Parse Report
                   </>
                 )}
               </Button>
@@ -347,7 +789,7 @@ const SalesUpload = () => {
       </Card>
 
       {/* Parsed Results */}
-      {parsedItems.length > 0 && (
+      {(parsedItems.length > 0 || modifierLines.length > 0) && (
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -355,6 +797,8 @@ const SalesUpload = () => {
                 <CardTitle>Parsed Sales Data</CardTitle>
                 <CardDescription>
                   Review and adjust matches. Use the dropdown to manually match unmatched items.
+                  {currentUpload?.isReparse &&
+                    ` Re-parsed from the upload history: saving replaces the sales saved for ${formatKitchenDate(salesDate)}.`}
                 </CardDescription>
               </div>
               <div className="flex gap-2">
@@ -368,6 +812,18 @@ const SalesUpload = () => {
                     {unmatchedCount} unmatched
                   </Badge>
                 )}
+                {modifierLines.length > 0 && (
+                  <Badge variant="secondary" className="gap-1">
+                    <PlusCircle className="h-3 w-3" />
+                    {modifierLines.length} modifiers
+                  </Badge>
+                )}
+                {ignoredCount > 0 && (
+                  <Badge variant="outline" className="gap-1">
+                    <EyeOff className="h-3 w-3" />
+                    {ignoredCount} ignored
+                  </Badge>
+                )}
               </div>
             </div>
           </CardHeader>
@@ -379,11 +835,12 @@ const SalesUpload = () => {
                   <TableHead className="w-24">Qty</TableHead>
                   <TableHead>Match</TableHead>
                   <TableHead className="w-64">Menu Item</TableHead>
+                  <TableHead className="w-12"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {parsedItems.map((item, idx) => (
-                  <TableRow key={idx}>
+                  <TableRow key={idx} className={item.ignored_by ? "text-muted-foreground" : undefined}>
                     <TableCell>
                       <span className="font-medium">{item.name}</span>
                       {item.original_name && item.original_name !== item.name && (
@@ -394,43 +851,102 @@ const SalesUpload = () => {
                     </TableCell>
                     <TableCell className="font-mono">{item.quantity}</TableCell>
                     <TableCell>
-                      <Badge
-                        variant={item.match_confidence === 'none' ? 'outline' : 'secondary'}
-                        className={getConfidenceColor(item.match_confidence || 'none')}
-                      >
-                        {getConfidenceLabel(item.match_confidence || 'none')}
-                      </Badge>
+                      {item.ignored_by ? (
+                        <>
+                          <Badge variant="outline">Ignored</Badge>
+                          <div className="mt-1 text-xs">{describeIgnoreRule(item.ignored_by)}</div>
+                        </>
+                      ) : (
+                        <Badge
+                          variant={item.match_confidence === 'none' ? 'outline' : 'secondary'}
+                          className={getConfidenceColor(item.match_confidence || 'none')}
+                        >
+                          {getConfidenceLabel(item.match_confidence || 'none')}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
-                      <Combobox
-                        value={item.matched_item_id || "none"}
-                        onValueChange={(value) => handleManualMatch(idx, value)}
-                        placeholder="Select menu item..."
-                        searchPlaceholder="Search items..."
-                        emptyText="No menu items found"
-                        options={[
-                          { value: "none", label: "No match" },
-                          ...menuItems.map((m) => ({ value: m.id, label: m.name }))
-                        ]}
-                      />
+                      {item.ignored_by ? (
+                        <span className="text-sm">Not saved</span>
+                      ) : (
+                        <Combobox
+                          value={item.matched_item_id || "none"}
+                          onValueChange={(value) => handleManualMatch(idx, value)}
+                          placeholder="Select menu item..."
+                          searchPlaceholder="Search items..."
+                          emptyText="No menu items found"
+                          options={[
+                            { value: "none", label: "No match" },
+                            ...menuItems.map((m) => ({ value: m.id, label: m.name }))
+                          ]}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {!item.ignored_by && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleAlwaysIgnore(item)}
+                          aria-label={`Always ignore ${item.original_name || item.name}`}
+                          title="Always ignore this line"
+                        >
+                          <EyeOff className="h-4 w-4" />
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
 
+            {modifierLines.length > 0 && (
+              <div className="mt-6">
+                <h4 className="mb-2 text-sm font-medium">Modifiers</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Modifier (from report)</TableHead>
+                      <TableHead className="w-24">Qty</TableHead>
+                      <TableHead>Uses</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {modifierLines.map((line, idx) => {
+                      const used = line.modifier.menu_items || line.modifier.prep_components;
+                      return (
+                        <TableRow key={idx}>
+                          <TableCell className="font-medium">{line.original_name || line.name}</TableCell>
+                          <TableCell className="font-mono">{line.quantity}</TableCell>
+                          <TableCell>
+                            {getModifierUsage(line.modifier, line.quantity)} {used?.unit} {used?.name || "Unknown"}
+                            {line.modifier.prep_components && (
+                              <span className="ml-1 text-xs text-muted-foreground">(component)</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
             <div className="mt-4 flex gap-2">
-              <Button onClick={handleSaveSalesData} disabled={isUploading || matchedCount === 0}>
+              <Button
+                onClick={handleSaveSalesData}
+                disabled={isUploading || (matchedCount === 0 && modifierLines.length === 0)}
+              >
                 {isUploading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Save Sales Data ({matchedCount} items)
+                Save Sales Data ({matchedCount} items{modifierLines.length ? `, ${modifierLines.length} modifiers` : ""})
               </Button>
               <Button
                 variant="secondary"
-                onClick={handleGeneratePrepList}
+                onClick={() => handleGeneratePrepList()}
                 disabled={isGenerating}
               >
                 {isGenerating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Generate Today's Prep List
+                Generate Prep List for {formatKitchenDate(targetDate, { month: "short", day: "numeric" })}
               </Button>
             </div>
           </CardContent>
@@ -440,31 +956,124 @@ const SalesUpload = () => {
       {/* Quick Generate */}
       <Card>
         <CardHeader>
-          <CardTitle>Quick Generate Prep List</CardTitle>
+          <CardTitle>Generate Prep List</CardTitle>
           <CardDescription>
-            Generate today's prep list based on existing sales data and par levels
+            Build the prep list for any date from par levels for that weekday, closing counts and sales from the selected sales date
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <Button
-            onClick={handleGeneratePrepList}
-            disabled={isGenerating}
-            variant="outline"
-          >
-            {isGenerating ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Generating...
-              </>
-            ) : (
-              <>
-                <Sparkles className="mr-2 h-4 w-4" />
-                Generate Prep List for Today
-              </>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="targetDate">Prep Date</Label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="targetDate"
+                  type="date"
+                  value={targetDate}
+                  onChange={(e) => setTargetDate(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="flex items-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setTargetDate(getKitchenToday())}>
+                Today
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setTargetDate(addDays(getKitchenToday(), 1))}>
+                Tomorrow
+              </Button>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="useForecast" checked={useForecast} onCheckedChange={setUseForecast} />
+              <Label htmlFor="useForecast">Use sales forecast when no count was taken</Label>
+            </div>
+            {useForecast && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">History:</span>
+                <Select
+                  value={forecastWeeks.toString()}
+                  onValueChange={(v) => setForecastWeeks(parseInt(v))}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FORECAST_WEEK_OPTIONS.map((weeks) => (
+                      <SelectItem key={weeks} value={weeks.toString()}>
+                        {weeks} weeks
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             )}
-          </Button>
+            <div className="flex items-center gap-2">
+              <Switch id="explodeSubRecipes" checked={explodeSubRecipes} onCheckedChange={setExplodeSubRecipes} />
+              <Label htmlFor="explodeSubRecipes">Include sub-recipe batches</Label>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              onClick={handlePreviewPrepList}
+              disabled={isPreviewing || isGenerating || !targetDate}
+            >
+              {isPreviewing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Eye className="mr-2 h-4 w-4" />
+              )}
+              Preview & Publish
+            </Button>
+            <Button
+              onClick={() => handleGeneratePrepList()}
+              disabled={isGenerating || !targetDate}
+              variant="outline"
+            >
+              {isGenerating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating...
+                </>
+              ) : (
+                <>
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Generate Prep List for {formatKitchenDate(targetDate || getKitchenToday())}
+                </>
+              )}
+            </Button>
+            <Button
+              onClick={() => handleGeneratePrepList(7)}
+              disabled={isGenerating || !targetDate}
+              variant="outline"
+            >
+              <Calendar className="mr-2 h-4 w-4" />
+              Generate Week Ahead
+            </Button>
+          </div>
         </CardContent>
       </Card>
+
+      <SalesUploadHistory
+        uploads={uploads}
+        onReparse={handleReparse}
+        reparsingId={reparsingId}
+        currentUploadId={currentUpload?.id ?? null}
+      />
+
+      <SalesModifiers modifiers={modifiers} onChange={fetchModifiers} />
+
+      <SalesIgnoreRules rules={ignoreRules} onChange={fetchIgnoreRules} />
+
+      <PrepListPreview
+        open={preview !== null}
+        onOpenChange={(open) => !open && setPreview(null)}
+        preview={preview}
+        onPublish={() => handleGeneratePrepList()}
+        isPublishing={isGenerating}
+      />
     </div>
   );
 };
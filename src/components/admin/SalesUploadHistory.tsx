@@ -0,0 +1,161 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader2, RefreshCw } from "lucide-react";
+import type { Database } from "@/integrations/supabase/types";
+import { formatKitchenDate } from "@/lib/kitchenDate";
+import { formatPrepTime } from "@/lib/labels";
+
+type SalesReportParser = Database["public"]["Enums"]["sales_report_parser"];
+
+export interface SalesUploadRecord {
+  id: string;
+  file_name: string;
+  file_path: string;
+  sales_date: string;
+  parser: SalesReportParser;
+  line_count: number;
+  matched_count: number;
+  saved_at: string | null;
+  reparsed_at: string | null;
+  uploaded_by_email: string | null;
+  created_at: string;
+}
+
+interface SalesUploadHistoryProps {
+  uploads: SalesUploadRecord[];
+  onReparse: (upload: SalesUploadRecord) => void;
+  reparsingId: string | null; // Upload being re-parsed
+  currentUploadId: string | null; // Upload whose lines are under review
+}
+
+const PARSER_LABELS: Record<SalesReportParser, string> = {
+  pos_report: "POS report",
+  ai: "AI",
+};
+
+const SalesUploadHistory = ({ uploads, onReparse, reparsingId, currentUploadId }: SalesUploadHistoryProps) => {
+  const { toast } = useToast();
+
+  // The bucket is private, so files open through a short-lived signed link
+  const handleDownload = async (upload: SalesUploadRecord) => {
+    try {
+      const { data, error } = await supabase.storage.from("sales-files").createSignedUrl(upload.file_path, 60);
+      if (error) throw error;
+      window.open(data.signedUrl, "_blank", "noopener");
+    } catch (error) {
+      console.error("Error downloading sales file:", error);
+      toast({
+        title: "Error",
+        description: "Failed to download file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Upload History</CardTitle>
+        <CardDescription>
+          Every sales report uploaded. Re-parse one to run it through the current parser, aliases and rules, then save it
+          to correct that day's sales.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Uploaded</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Sales Date</TableHead>
+              <TableHead>Parser</TableHead>
+              <TableHead>Lines</TableHead>
+              <TableHead>Saved</TableHead>
+              <TableHead className="w-24">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {uploads.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No reports uploaded yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              uploads.map((upload) => (
+                <TableRow key={upload.id} className={upload.id === currentUploadId ? "bg-muted/50" : undefined}>
+                  <TableCell>
+                    <div>{formatPrepTime(upload.created_at)}</div>
+                    {upload.uploaded_by_email && (
+                      <div className="text-xs text-muted-foreground">{upload.uploaded_by_email}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-48 truncate font-medium" title={upload.file_name}>
+                    {upload.file_name}
+                  </TableCell>
+                  <TableCell>{formatKitchenDate(upload.sales_date, { month: "short", day: "numeric" })}</TableCell>
+                  <TableCell>
+                    <Badge variant={upload.parser === "ai" ? "secondary" : "outline"}>
+                      {PARSER_LABELS[upload.parser]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="font-mono">
+                    {upload.matched_count}/{upload.line_count}
+                  </TableCell>
+                  <TableCell>
+                    {upload.saved_at ? formatPrepTime(upload.saved_at) : (
+                      <span className="text-muted-foreground">Not saved</span>
+                    )}
+                    {upload.reparsed_at && (
+                      <div className="text-xs text-muted-foreground">Re-parsed {formatPrepTime(upload.reparsed_at)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDownload(upload)}
+                        aria-label={`Download ${upload.file_name}`}
+                        title="Download"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onReparse(upload)}
+                        disabled={reparsingId !== null}
+                        aria-label={`Re-parse ${upload.file_name}`}
+                        title="Re-parse with the current rules"
+                      >
+                        {reparsingId === upload.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RefreshCw className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SalesUploadHistory;
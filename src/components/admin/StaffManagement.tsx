@@ -0,0 +1,481 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { History, KeyRound, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { formatKitchenDate } from "@/lib/kitchenDate";
+import { formatPrepTime } from "@/lib/labels";
+import { formatQuantity } from "@/lib/units";
+import { formatLaborMinutes } from "@/lib/labor";
+import { fetchAllRows } from "@/lib/pagination";
+
+interface StaffMember {
+  id: string;
+  name: string;
+  initials: string | null;
+  is_active: boolean;
+}
+
+interface CompletedTask {
+  id: string;
+  prep_date: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  active_seconds: number;
+  completed_at: string;
+}
+
+// How far back the roster counts and per-cook history look
+const HISTORY_DAYS = 30;
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+const getHistorySince = () => new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+const StaffManagement = () => {
+  const { toast } = useToast();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [completedCounts, setCompletedCounts] = useState<Map<string, number>>(new Map());
+  const [pinIds, setPinIds] = useState<Set<string>>(new Set()); // Cooks who can sign in
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingMember, setEditingMember] = useState<StaffMember | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [historyMember, setHistoryMember] = useState<StaffMember | null>(null);
+  const [history, setHistory] = useState<CompletedTask[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [initials, setInitials] = useState("");
+  const [isActive, setIsActive] = useState(true);
+  const [pin, setPin] = useState("");
+
+  useEffect(() => {
+    fetchStaff();
+  }, []);
+
+  const fetchStaff = async () => {
+    try {
+      // Finished tasks are counted from the timing log, which keeps them when
+      // a list is regenerated
+      const [staffRes, pinsRes, completed] = await Promise.all([
+        supabase.from("staff_members").select("id, name, initials, is_active").order("name"),
+        supabase.from("staff_pins").select("staff_member_id"),
+        fetchAllRows((from, to) =>
+          supabase
+            .from("prep_task_durations")
+            .select("staff_member_id")
+            .not("staff_member_id", "is", null)
+            .gte("completed_at", getHistorySince())
+            .order("id")
+            .range(from, to)
+        ),
+      ]);
+
+      if (staffRes.error) throw staffRes.error;
+      if (pinsRes.error) throw pinsRes.error;
+
+      const counts = new Map<string, number>();
+      completed.forEach((row) => {
+        if (row.staff_member_id) counts.set(row.staff_member_id, (counts.get(row.staff_member_id) || 0) + 1);
+      });
+
+      setStaff(staffRes.data || []);
+      setPinIds(new Set(pinsRes.data?.map((row) => row.staff_member_id)));
+      setCompletedCounts(counts);
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load staff",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openHistory = async (member: StaffMember) => {
+    setHistoryMember(member);
+    setHistory([]);
+    setIsHistoryLoading(true);
+    try {
+      const data = await fetchAllRows((from, to) =>
+        supabase
+          .from("prep_task_durations")
+          .select(`
+            id,
+            prep_date,
+            quantity,
+            active_seconds,
+            completed_at,
+            menu_items (
+              name,
+              unit
+            ),
+            prep_components (
+              name,
+              unit
+            )
+          `)
+          .eq("staff_member_id", member.id)
+          .gte("completed_at", getHistorySince())
+          .order("completed_at", { ascending: false })
+          .order("id")
+          .range(from, to)
+      );
+
+      setHistory(
+        data.map((row) => {
+          const target = (row.menu_items || row.prep_components) as { name: string; unit: string } | null;
+          return {
+            id: row.id,
+            prep_date: row.prep_date,
+            name: target?.name || "Unknown",
+            unit: target?.unit || "portions",
+            quantity: Number(row.quantity),
+            active_seconds: row.active_seconds,
+            completed_at: row.completed_at,
+          };
+        })
+      );
+    } catch (error) {
+      console.error("Error fetching staff history:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName("");
+    setInitials("");
+    setIsActive(true);
+    setPin("");
+    setEditingMember(null);
+  };
+
+  const openDialog = (member?: StaffMember) => {
+    if (member) {
+      setEditingMember(member);
+      setName(member.name);
+      setInitials(member.initials || "");
+      setIsActive(member.is_active);
+      setPin("");
+    } else {
+      resetForm();
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (pin && !PIN_PATTERN.test(pin)) {
+      toast({
+        title: "Error",
+        description: "PIN must be 4 to 6 digits",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const memberData = {
+        name: name.trim(),
+        initials: initials.trim().toUpperCase() || null,
+        is_active: isActive,
+      };
+
+      let memberId: string;
+
+      if (editingMember) {
+        const { error } = await supabase
+          .from("staff_members")
+          .update(memberData)
+          .eq("id", editingMember.id);
+
+        if (error) throw error;
+        memberId = editingMember.id;
+      } else {
+        const { data, error } = await supabase
+          .from("staff_members")
+          .insert(memberData)
+          .select("id")
+          .single();
+
+        if (error) throw error;
+        memberId = data.id;
+      }
+
+      // PINs are hashed in the database, never stored as entered
+      if (pin) {
+        const { error: pinError } = await supabase.rpc("set_staff_pin", {
+          _staff_member_id: memberId,
+          _pin: pin,
+        });
+
+        if (pinError) throw pinError;
+      }
+
+      toast({ title: "Success", description: editingMember ? "Cook updated" : "Cook added" });
+      setIsDialogOpen(false);
+      resetForm();
+      fetchStaff();
+    } catch (error) {
+      console.error("Error saving staff member:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save cook",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Remove this cook? Their task history will no longer show who did the work.")) return;
+
+    try {
+      const { error } = await supabase.from("staff_members").delete().eq("id", id);
+      if (error) throw error;
+      toast({ title: "Success", description: "Cook removed" });
+      fetchStaff();
+    } catch (error) {
+      console.error("Error deleting staff member:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove cook",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Staff</CardTitle>
+          <CardDescription>
+            Cooks sign in to the prep dashboard with their PIN to work on tasks. Inactive cooks can't sign in but keep
+            their history.
+          </CardDescription>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => openDialog()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Cook
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingMember ? "Edit Cook" : "Add Cook"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="staff-name">Name</Label>
+                  <Input
+                    id="staff-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g., Maria Lopez"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="staff-initials">Initials</Label>
+                  <Input
+                    id="staff-initials"
+                    value={initials}
+                    onChange={(e) => setInitials(e.target.value)}
+                    maxLength={4}
+                    placeholder="e.g., ML"
+                    className="uppercase"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="staff-pin">
+                  {editingMember && pinIds.has(editingMember.id) ? "New PIN" : "PIN"}
+                </Label>
+                <Input
+                  id="staff-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                  maxLength={6}
+                  placeholder={
+                    editingMember && pinIds.has(editingMember.id) ? "Leave blank to keep the current PIN" : "4 to 6 digits"
+                  }
+                />
+                <p className="text-xs text-muted-foreground">Cooks sign in to the prep dashboard with this PIN.</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="staff-active" checked={isActive} onCheckedChange={setIsActive} />
+                <Label htmlFor="staff-active">Active</Label>
+              </div>
+              <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingMember ? "Update" : "Create"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Initials</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>PIN</TableHead>
+              <TableHead className="text-right">Tasks ({HISTORY_DAYS} days)</TableHead>
+              <TableHead className="w-32">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {staff.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No cooks yet. Add the kitchen team so they can claim prep tasks.
+                </TableCell>
+              </TableRow>
+            ) : (
+              staff.map((member) => (
+                <TableRow key={member.id}>
+                  <TableCell className="font-medium">{member.name}</TableCell>
+                  <TableCell>{member.initials || "-"}</TableCell>
+                  <TableCell>
+                    {member.is_active ? <Badge variant="secondary">Active</Badge> : <Badge variant="outline">Inactive</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {pinIds.has(member.id) ? (
+                      <KeyRound className="h-4 w-4 text-muted-foreground" aria-label="PIN set" />
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Not set</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{completedCounts.get(member.id) || 0}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => openHistory(member)} aria-label="Task history">
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(member)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(member.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      {/* Per-cook history */}
+      <Dialog open={historyMember !== null} onOpenChange={(open) => !open && setHistoryMember(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{historyMember?.name}</DialogTitle>
+            <DialogDescription>Prep tasks finished in the last {HISTORY_DAYS} days</DialogDescription>
+          </DialogHeader>
+          {isHistoryLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">No finished tasks</p>
+          ) : (
+            <ScrollArea className="max-h-[60vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Prep Date</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Made</TableHead>
+                    <TableHead className="text-right">Time</TableHead>
+                    <TableHead>Finished</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((task) => (
+                    <TableRow key={task.id}>
+                      <TableCell>
+                        {task.prep_date ? formatKitchenDate(task.prep_date, { month: "short", day: "numeric" }) : "-"}
+                      </TableCell>
+                      <TableCell className="font-medium">{task.name}</TableCell>
+                      <TableCell className="text-right">
+                        {formatQuantity(task.quantity)} {task.unit}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {task.active_seconds > 0 ? formatLaborMinutes(task.active_seconds / 60) : "-"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {task.completed_at ? formatPrepTime(task.completed_at) : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default StaffManagement;
@@ -0,0 +1,42 @@
+import { Badge } from "@/components/ui/badge";
+import { Clock } from "lucide-react";
+import { formatLaborMinutes, type StationLabor } from "@/lib/labor";
+
+interface StationLaborSummaryProps {
+  labor: StationLabor[];
+}
+
+// Estimated prep labor per station so the morning shift can be staffed to it
+const StationLaborSummary = ({ labor }: StationLaborSummaryProps) => {
+  if (labor.length === 0) return null;
+
+  const totalMinutes = labor.reduce((sum, station) => sum + station.minutes, 0);
+  const unestimatedCount = labor.reduce((sum, station) => sum + station.unestimatedCount, 0);
+
+  return (
+    <div className="rounded-md border p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Clock className="h-4 w-4" />
+        Estimated Labor: {formatLaborMinutes(totalMinutes)}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {labor.map((station) => (
+          <Badge key={station.station} variant="secondary" className="capitalize">
+            {station.station}: {formatLaborMinutes(station.minutes)}
+            <span className="ml-1 font-normal opacity-70">
+              ({station.taskCount} {station.taskCount === 1 ? "task" : "tasks"})
+            </span>
+          </Badge>
+        ))}
+      </div>
+      {unestimatedCount > 0 && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          {unestimatedCount} {unestimatedCount === 1 ? "task hasn't" : "tasks haven't"} been timed yet and{" "}
+          {unestimatedCount === 1 ? "isn't" : "aren't"} included.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StationLaborSummary;
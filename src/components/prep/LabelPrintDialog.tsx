@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatPrepTime,
+  formatUseBy,
+  LABEL_STOCKS,
+  printLabels,
+  type LabelStock,
+  type PrepLabel,
+} from "@/lib/labels";
+import type { StaffOption } from "./PrepListItem";
+
+export interface LabelItem {
+  id: string;
+  name: string;
+  preppedAt: string;
+  preppedBy: StaffOption | null;
+  useBy: string | null;
+  allergens: string[];
+  quantity?: string;
+}
+
+interface LabelPrintDialogProps {
+  title: string;
+  items: LabelItem[];
+  onClose: () => void;
+}
+
+// Remember the label stock on this device between prints
+const STOCK_KEY = "prep-label-stock";
+
+const LabelPrintDialog = ({ title, items, onClose }: LabelPrintDialogProps) => {
+  const { toast } = useToast();
+  const [stock, setStock] = useState<LabelStock>(() =>
+    localStorage.getItem(STOCK_KEY) === "1x2" ? "1x2" : "2x2"
+  );
+  const [copies, setCopies] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setCopies({});
+  }, [items]);
+
+  const getCopies = (id: string) => copies[id] ?? 1;
+  const labelCount = items.reduce((sum, item) => sum + getCopies(item.id), 0);
+
+  const handlePrint = () => {
+    localStorage.setItem(STOCK_KEY, stock);
+
+    const labels: PrepLabel[] = items.flatMap((item) =>
+      Array.from({ length: getCopies(item.id) }, () => ({
+        name: item.name,
+        preppedAt: item.preppedAt,
+        useBy: item.useBy,
+        preppedBy: item.preppedBy ? item.preppedBy.initials || item.preppedBy.name : null,
+        allergens: item.allergens,
+        quantity: item.quantity,
+      }))
+    );
+
+    if (!printLabels(labels, stock)) {
+      toast({
+        title: "Couldn't open labels",
+        description: "Allow pop-ups for this site to print labels",
+        variant: "destructive",
+      });
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={items.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Labels show the prep time, use-by date, who prepped it and allergens.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Label stock</Label>
+          <Select value={stock} onValueChange={(v) => setStock(v as LabelStock)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LABEL_STOCKS) as LabelStock[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {LABEL_STOCKS[key].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ScrollArea className="max-h-[40vh] rounded-md border">
+          <div className="divide-y">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center gap-3 p-3">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{item.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatPrepTime(item.preppedAt)}
+                    {item.preppedBy && ` by ${item.preppedBy.name}`} · use by {item.useBy ? formatUseBy(item.useBy) : "—"}
+                  </p>
+                  {item.allergens.length > 0 && (
+                    <p className="text-xs uppercase text-muted-foreground">Contains {item.allergens.join(", ")}</p>
+                  )}
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={getCopies(item.id)}
+                  onChange={(e) =>
+                    setCopies((prev) => ({ ...prev, [item.id]: Math.max(0, parseInt(e.target.value) || 0) }))
+                  }
+                  className="w-16"
+                  aria-label={`Labels for ${item.name}`}
+                />
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handlePrint} disabled={labelCount === 0}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print {labelCount} {labelCount === 1 ? "Label" : "Labels"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LabelPrintDialog;
@@ -1,18 +1,63 @@
 import { Card } from "@/components/ui/card";
-import { BookOpen, Check, Clock, Circle } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BookOpen, Check, Clock, Circle, Pause, Play, Printer, UserRound } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatQuantity } from "@/lib/units";
+import { formatKitchenDate } from "@/lib/kitchenDate";
+import { formatLaborMinutes } from "@/lib/labor";
 import type { Database } from "@/integrations/supabase/types";
 
 type PrepStatus = Database["public"]["Enums"]["prep_status"];
+type CalculationMethod = Database["public"]["Enums"]["prep_calculation_method"];
+
+export interface StaffOption {
+  id: string;
+  name: string;
+  initials: string | null;
+  is_active: boolean;
+}
+
+export interface SourceItem {
+  menu_item_id: string | null; // null for a POS modifier
+  name: string;
+  portions: number;
+  quantity: number;
+}
 
 interface PrepListItemProps {
   id: string;
   name: string;
   quantity: number;
+  quantityProduced?: number | null; // What the cook has made so far
   unit: string;
+  rawQuantity?: number | null; // Need before rounding up to whole batches
+  batchCount?: number | null;
+  batchContainer?: string | null;
+  containerQuantity?: number | null; // Container amount the batches fill
+  expiresOn?: string | null; // Last service day for what's prepped today
   status: PrepStatus;
+  isPaused?: boolean; // Started but put down for now; the timer isn't running
+  activeSeconds?: number; // Time worked on the task, pauses excluded
+  calculationMethod?: CalculationMethod;
+  parQuantity?: number | null;
+  onHandQuantity?: number | null;
+  subRecipes?: { name: string; batches: number }[] | null;
+  sourceItems?: SourceItem[] | null; // Dishes a component is prepped for
+  assignedTo?: string | null; // Staff member id
+  completedBy?: string | null;
+  staff?: StaffOption[];
+  onAssign?: (staffId: string | null) => void;
   onStatusChange: (status: PrepStatus) => void;
+  onRecordProduced?: () => void; // Finishing a task asks for the quantity made
+  onTogglePause?: () => void;
   onViewRecipe: () => void;
+  onPrintLabel?: () => void;
 }
 
 const statusConfig = {
@@ -42,16 +87,49 @@ const statusConfig = {
 const PrepListItem = ({
   name,
   quantity,
+  quantityProduced,
   unit,
+  rawQuantity,
+  batchCount,
+  batchContainer,
+  containerQuantity,
+  expiresOn,
   status,
+  isPaused = false,
+  activeSeconds = 0,
+  calculationMethod,
+  parQuantity,
+  onHandQuantity,
+  subRecipes,
+  sourceItems,
+  assignedTo,
+  completedBy,
+  staff = [],
+  onAssign,
   onStatusChange,
+  onRecordProduced,
+  onTogglePause,
   onViewRecipe,
+  onPrintLabel,
 }: PrepListItemProps) => {
   const config = statusConfig[status];
+  const batchLabel = batchCount
+    ? `${formatQuantity(batchCount)} ${batchCount === 1 ? "batch" : "batches"}`
+    : null;
+  const containerLabel =
+    containerQuantity != null && batchContainer ? `≈ ${formatQuantity(containerQuantity)} ${batchContainer}` : null;
   const StatusIcon = config.icon;
+  const difference = quantityProduced != null ? quantityProduced - quantity : 0;
+  const getStaffName = (id: string | null | undefined) => staff.find((member) => member.id === id)?.name;
+  const assigneeName = getStaffName(assignedTo);
+  const completedByName = getStaffName(completedBy);
 
   const cycleStatus = (e: React.MouseEvent) => {
     e.stopPropagation();
+    if (status === "in_progress" && onRecordProduced) {
+      onRecordProduced();
+      return;
+    }
     const next: Record<PrepStatus, PrepStatus> = {
       open: "in_progress",
       in_progress: "completed",
@@ -93,13 +171,122 @@ const PrepListItem = ({
           {name}
         </h3>
         <p className="text-2xl font-bold text-primary">
-          {quantity}{" "}
+          {quantityProduced != null && `${formatQuantity(quantityProduced)} / `}
+          {formatQuantity(quantity)}{" "}
           <span className="text-base font-normal text-muted-foreground">
             {unit}
           </span>
+          {(batchLabel || containerLabel) && (
+            <span className="ml-2 text-base font-medium text-foreground">
+              {batchLabel && containerLabel
+                ? `${batchLabel} (${containerLabel})`
+                : batchLabel || `(${containerLabel})`}
+            </span>
+          )}
         </p>
+        {status === "in_progress" && isPaused && (
+          <p className="text-xs font-medium text-status-progress">Paused</p>
+        )}
+        {status === "completed" && difference !== 0 && (
+          <p className={cn("text-xs font-medium", difference < 0 ? "text-destructive" : "text-muted-foreground")}>
+            {difference < 0
+              ? `${formatQuantity(-difference)} ${unit} short`
+              : `${formatQuantity(difference)} ${unit} over`}
+          </p>
+        )}
+        {rawQuantity != null && rawQuantity !== quantity && (
+          <p className="text-xs text-muted-foreground">
+            Rounded up from {formatQuantity(rawQuantity)} {unit}
+          </p>
+        )}
+        {calculationMethod === "par_minus_on_hand" ? (
+          <p className="text-xs text-muted-foreground">
+            Par {parQuantity ?? 0} − {onHandQuantity ?? 0} on hand
+          </p>
+        ) : calculationMethod === "par_override" ? (
+          <p className="text-xs text-muted-foreground">No count taken · event par {parQuantity ?? 0}</p>
+        ) : calculationMethod === "forecast" ? (
+          <p className="text-xs text-muted-foreground">No count taken · based on forecast</p>
+        ) : calculationMethod === "sales" ? (
+          <p className="text-xs text-muted-foreground">No count taken · based on sales</p>
+        ) : sourceItems && sourceItems.length > 0 ? (
+          <p className="text-xs text-muted-foreground truncate">
+            For {sourceItems.map((source) => `${source.name} × ${source.portions}`).join(", ")}
+          </p>
+        ) : null}
+        {expiresOn && (
+          <p className="text-xs text-muted-foreground">Use by {formatKitchenDate(expiresOn)}</p>
+        )}
+        {subRecipes && subRecipes.length > 0 && (
+          <p className="text-xs text-muted-foreground truncate">
+            Needs {subRecipes.map((sub) => `${sub.name} × ${sub.batches}`).join(", ")}
+          </p>
+        )}
+        {status === "completed" && completedByName ? (
+          <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+            <UserRound className="h-3 w-3" />
+            Finished by {completedByName}
+            {activeSeconds > 0 && ` · took ${formatLaborMinutes(activeSeconds / 60)}`}
+          </p>
+        ) : onAssign && staff.length > 0 ? (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                onClick={(e) => e.stopPropagation()}
+                className={cn(
+                  "mt-1 flex items-center gap-1 rounded text-xs hover:underline",
+                  assigneeName ? "font-medium text-foreground" : "text-muted-foreground"
+                )}
+              >
+                <UserRound className="h-3 w-3" />
+                {assigneeName || "Unassigned"}
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+              {staff.filter((member) => member.is_active).map((member) => (
+                <DropdownMenuItem key={member.id} onSelect={() => onAssign(member.id)}>
+                  {member.name}
+                </DropdownMenuItem>
+              ))}
+              {assignedTo && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={() => onAssign(null)}>Unassign</DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        ) : null}
       </div>
 
+      {/* Pause and resume the task timer */}
+      {status === "in_progress" && onTogglePause && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onTogglePause();
+          }}
+          className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl border border-border text-muted-foreground transition-transform hover:bg-accent active:scale-95"
+          aria-label={isPaused ? "Resume task" : "Pause task"}
+        >
+          {isPaused ? <Play className="h-6 w-6" /> : <Pause className="h-6 w-6" />}
+        </button>
+      )}
+
+      {/* Label printing for finished prep */}
+      {status === "completed" && onPrintLabel && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onPrintLabel();
+          }}
+          className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl border border-border text-muted-foreground transition-transform hover:bg-accent active:scale-95"
+          aria-label="Print label"
+        >
+          <Printer className="h-6 w-6" />
+        </button>
+      )}
+
       {/* Recipe Hint Icon */}
       <BookOpen className="h-6 w-6 shrink-0 text-muted-foreground" />
     </Card>
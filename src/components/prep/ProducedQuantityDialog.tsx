@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check, Minus, Plus } from "lucide-react";
+import { formatQuantity } from "@/lib/units";
+import type { Database } from "@/integrations/supabase/types";
+
+type PrepStatus = Database["public"]["Enums"]["prep_status"];
+
+export interface ProducedTask {
+  id: string;
+  name: string;
+  quantityNeeded: number;
+  quantityProduced: number | null;
+  unit: string;
+}
+
+interface ProducedQuantityDialogProps {
+  task: ProducedTask | null;
+  onSave: (quantity: number, status: PrepStatus) => void;
+  onClose: () => void;
+}
+
+const ProducedQuantityDialog = ({ task, onSave, onClose }: ProducedQuantityDialogProps) => {
+  const [quantity, setQuantity] = useState("");
+
+  // Start from what's been logged so far, or the full amount when finishing in one go
+  useEffect(() => {
+    if (task) setQuantity(String(task.quantityProduced ?? task.quantityNeeded));
+  }, [task]);
+
+  const produced = parseFloat(quantity);
+  const isValid = !isNaN(produced) && produced >= 0;
+  const difference = isValid && task ? produced - task.quantityNeeded : 0;
+
+  const step = (delta: number) =>
+    setQuantity(String(Math.max(0, (isValid ? produced : 0) + delta)));
+
+  return (
+    <Dialog open={task !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{task?.name}</DialogTitle>
+          <DialogDescription>
+            How much did you make? Needed {task ? formatQuantity(task.quantityNeeded) : ""} {task?.unit}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="quantity-produced">Made ({task?.unit})</Label>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" className="h-12 w-12 shrink-0" onClick={() => step(-1)}>
+              <Minus className="h-5 w-5" />
+            </Button>
+            <Input
+              id="quantity-produced"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="any"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="h-12 text-center text-2xl font-bold"
+            />
+            <Button variant="outline" size="icon" className="h-12 w-12 shrink-0" onClick={() => step(1)}>
+              <Plus className="h-5 w-5" />
+            </Button>
+          </div>
+          {difference !== 0 && (
+            <p className={difference < 0 ? "text-sm text-destructive" : "text-sm text-muted-foreground"}>
+              {difference < 0
+                ? `${formatQuantity(-difference)} ${task?.unit} short`
+                : `${formatQuantity(difference)} ${task?.unit} over`}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" disabled={!isValid} onClick={() => onSave(produced, "in_progress")}>
+            Save Progress
+          </Button>
+          <Button disabled={!isValid} onClick={() => onSave(produced, "completed")}>
+            <Check className="mr-2 h-4 w-4" />
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProducedQuantityDialog;
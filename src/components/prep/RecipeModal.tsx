@@ -8,6 +8,8 @@ import {
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import {
   Table,
   TableBody,
@@ -16,7 +18,15 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import {
+  getIngredientCost,
+  getRecipeCost,
+  getScaleFactor,
+  getSubRecipeBatches,
+  scaleIngredient,
+} from "@/lib/recipeScaling";
 
 interface Ingredient {
   item: string;
@@ -24,6 +34,15 @@ interface Ingredient {
   measure?: string;
   unit_cost?: number;
   total_cost?: number;
+  recipe_id?: string | null;
+}
+
+// A sub-recipe opened from an ingredient line of the recipe before it
+interface SubRecipeStep {
+  recipeId: string;
+  ingredient: Ingredient;
+  parentName: string;
+  parentFactor: number;
 }
 
 interface Recipe {
@@ -40,6 +59,8 @@ interface Recipe {
 interface RecipeModalProps {
   recipeId: string | null;
   itemName?: string;
+  quantityNeeded?: number; // Prep quantity to scale the recipe to
+  unit?: string; // Unit the prep quantity is counted in
   onClose: () => void;
 }
 
@@ -48,28 +69,30 @@ const formatCurrency = (value: number | null | undefined) => {
   return `$${value.toFixed(2)}`;
 };
 
-const RecipeModal = ({ recipeId, itemName, onClose }: RecipeModalProps) => {
+const RecipeModal = ({ recipeId, itemName, quantityNeeded, unit, onClose }: RecipeModalProps) => {
   const isOpen = recipeId !== null || itemName !== undefined;
   const [recipe, setRecipe] = useState<Recipe | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [trail, setTrail] = useState<SubRecipeStep[]>([]);
 
   useEffect(() => {
+    setShowOriginal(false);
+    setTrail([]);
     if (recipeId) {
-      fetchRecipe();
+      fetchRecipe(recipeId);
     } else {
       setRecipe(null);
     }
   }, [recipeId]);
 
-  const fetchRecipe = async () => {
-    if (!recipeId) return;
-
+  const fetchRecipe = async (id: string) => {
     setIsLoading(true);
     try {
       const { data, error } = await supabase
         .from("recipes")
         .select("*")
-        .eq("id", recipeId)
+        .eq("id", id)
         .maybeSingle();
 
       if (error) throw error;
@@ -105,7 +128,48 @@ const RecipeModal = ({ recipeId, itemName, onClose }: RecipeModalProps) => {
   };
 
   const hasYieldInfo = recipe?.yield_amount || recipe?.yield_measure;
-  const hasRecipeCost = recipe?.recipe_cost != null;
+  // Imported recipe cost, or rolled up from the ingredient lines
+  const baseRecipeCost = recipe?.recipe_cost ?? getRecipeCost(recipe?.ingredients || []);
+  const hasRecipeCost = baseRecipeCost != null;
+
+  // Scale to the prep quantity when the yield can be compared to the prep unit.
+  // A sub-recipe scales to what the line it was opened from calls for.
+  const currentStep = trail[trail.length - 1];
+  const getFactor = (): number | null => {
+    if (!recipe) return null;
+    if (currentStep) {
+      const batches = getSubRecipeBatches(currentStep.ingredient, {
+        ...recipe,
+        ingredients: recipe.ingredients || [],
+      });
+      return batches === null ? null : batches * currentStep.parentFactor;
+    }
+    return quantityNeeded && unit
+      ? getScaleFactor(recipe.yield_amount, recipe.yield_measure, quantityNeeded, unit)
+      : null;
+  };
+  const scaleFactor = getFactor();
+  const canScale = scaleFactor !== null && Math.abs(scaleFactor - 1) > 1e-6;
+  const isScaled = canScale && !showOriginal;
+  const factor = isScaled ? scaleFactor : 1;
+  const scaleCost = (value: number | null | undefined) => (value == null ? value : value * factor);
+  const scaledYield = isScaled ? scaleIngredient(recipe?.yield_amount, recipe?.yield_measure, factor) : null;
+
+  const openSubRecipe = (ingredient: Ingredient) => {
+    if (!recipe || !ingredient.recipe_id) return;
+    setTrail((prev) => [
+      ...prev,
+      { recipeId: ingredient.recipe_id!, ingredient, parentName: recipe.name, parentFactor: factor },
+    ]);
+    fetchRecipe(ingredient.recipe_id);
+  };
+
+  const goBack = () => {
+    const previous = trail.slice(0, -1);
+    setTrail(previous);
+    const parentId = previous.length > 0 ? previous[previous.length - 1].recipeId : recipeId;
+    if (parentId) fetchRecipe(parentId);
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={() => onClose()}>
@@ -117,6 +181,12 @@ const RecipeModal = ({ recipeId, itemName, onClose }: RecipeModalProps) => {
         ) : recipe ? (
           <>
             <DialogHeader>
+              {currentStep && (
+                <Button variant="ghost" size="sm" onClick={goBack} className="-ml-2 w-fit text-muted-foreground">
+                  <ChevronLeft className="mr-1 h-4 w-4" />
+                  {currentStep.parentName}
+                </Button>
+              )}
               <DialogTitle className="font-display text-2xl">
                 {recipe.name}
               </DialogTitle>
@@ -131,8 +201,15 @@ const RecipeModal = ({ recipeId, itemName, onClose }: RecipeModalProps) => {
                       <div className="flex items-center gap-2">
                         <span className="font-medium text-muted-foreground">Yields:</span>
                         <span className="font-semibold">
-                          {recipe.yield_amount} {recipe.yield_measure}
+                          {scaledYield?.scaled
+                            ? `${scaledYield.quantity} ${scaledYield.measure}`
+                            : `${recipe.yield_amount ?? ""} ${recipe.yield_measure ?? ""}`}
                         </span>
+                        {isScaled && (
+                          <span className="text-muted-foreground">
+                            (×{parseFloat(scaleFactor.toFixed(2))} of {recipe.yield_amount} {recipe.yield_measure})
+                          </span>
+                        )}
                       </div>
                     )}
                     {hasYieldInfo && hasRecipeCost && (
@@ -142,10 +219,22 @@ const RecipeModal = ({ recipeId, itemName, onClose }: RecipeModalProps) => {
                       <div className="flex items-center gap-2">
                         <span className="font-medium text-muted-foreground">Recipe Cost:</span>
                         <span className="font-semibold text-primary">
-                          {formatCurrency(recipe.recipe_cost)}
+                          {formatCurrency(scaleCost(baseRecipeCost))}
                         </span>
                       </div>
                     )}
+                    {canScale && (
+                      <div className="ml-auto flex items-center gap-2">
+                        <Switch
+                          id="recipe-show-original"
+                          checked={showOriginal}
+                          onCheckedChange={setShowOriginal}
+                        />
+                        <Label htmlFor="recipe-show-original" className="text-muted-foreground">
+                          Show original
+                        </Label>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -166,15 +255,30 @@ const RecipeModal = ({ recipeId, itemName, onClose }: RecipeModalProps) => {
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {recipe.ingredients.map((ing, idx) => (
-                          <TableRow key={idx} className="even:bg-muted/20">
-                            <TableCell className="font-medium">{ing.item}</TableCell>
-                            <TableCell className="text-right">{ing.quantity}</TableCell>
-                            <TableCell>{ing.measure || "-"}</TableCell>
-                            <TableCell className="text-right">{formatCurrency(ing.unit_cost)}</TableCell>
-                            <TableCell className="text-right font-medium">{formatCurrency(ing.total_cost)}</TableCell>
-                          </TableRow>
-                        ))}
+                        {recipe.ingredients.map((ing, idx) => {
+                          const scaled = isScaled ? scaleIngredient(ing.quantity, ing.measure, factor) : null;
+                          return (
+                            <TableRow key={idx} className="even:bg-muted/20">
+                              <TableCell className="font-medium">
+                                {ing.recipe_id ? (
+                                  <button
+                                    onClick={() => openSubRecipe(ing)}
+                                    className="inline-flex items-center text-primary hover:underline"
+                                  >
+                                    {ing.item}
+                                    <ChevronRight className="ml-1 h-4 w-4" />
+                                  </button>
+                                ) : (
+                                  ing.item
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right">{scaled ? scaled.quantity : ing.quantity}</TableCell>
+                              <TableCell>{(scaled ? scaled.measure : ing.measure) || "-"}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(ing.unit_cost)}</TableCell>
+                              <TableCell className="text-right font-medium">{formatCurrency(getIngredientCost(ing, factor))}</TableCell>
+                            </TableRow>
+                          );
+                        })}
                       </TableBody>
                     </Table>
                   </div>
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ArrowLeft, Delete, Loader2, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { StaffOption } from "./PrepListItem";
+
+interface StaffPinPadProps {
+  staff: StaffOption[];
+  onSignedIn: (staffId: string) => void;
+  onExit: () => void;
+}
+
+const MAX_PIN_LENGTH = 6;
+const MIN_PIN_LENGTH = 4;
+const KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+const StaffPinPad = ({ staff, onSignedIn, onExit }: StaffPinPadProps) => {
+  const [selected, setSelected] = useState<StaffOption | null>(null);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const activeStaff = staff.filter((member) => member.is_active);
+
+  const pressKey = (key: string) => {
+    setError(null);
+    setPin((prev) => (prev.length < MAX_PIN_LENGTH ? prev + key : prev));
+  };
+
+  const chooseCook = (member: StaffOption | null) => {
+    setSelected(member);
+    setPin("");
+    setError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!selected || pin.length < MIN_PIN_LENGTH) return;
+
+    setIsChecking(true);
+    try {
+      // The PIN signs the cook in on this device's session, so make sure there is one
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        const { error: authError } = await supabase.auth.signInAnonymously();
+        if (authError) throw authError;
+      }
+
+      const { data, error: signInError } = await supabase.rpc("staff_sign_in", {
+        _staff_member_id: selected.id,
+        _pin: pin,
+      });
+
+      if (signInError) throw signInError;
+
+      if (!data) {
+        setError("Wrong PIN");
+        setPin("");
+        return;
+      }
+      onSignedIn(selected.id);
+    } catch (err) {
+      console.error("Error signing in:", err);
+      setError((err as { message?: string })?.message || "Couldn't sign in");
+      setPin("");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <header className="border-b border-border bg-card px-4 py-3">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={onExit} className="text-muted-foreground">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Exit
+          </Button>
+          <h1 className="flex items-center gap-2 font-display text-xl font-bold text-foreground">
+            <Lock className="h-5 w-5" />
+            Sign In to Prep
+          </h1>
+          <div className="w-16" />
+        </div>
+      </header>
+
+      <main className="flex flex-1 flex-col items-center justify-center p-4">
+        {!selected ? (
+          activeStaff.length === 0 ? (
+            <p className="max-w-sm text-center text-muted-foreground">
+              No cooks on the roster yet. Ask a manager to add the team and their PINs under Admin → Staff.
+            </p>
+          ) : (
+            <div className="w-full max-w-2xl">
+              <p className="mb-4 text-center text-lg text-muted-foreground">Who's prepping?</p>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                {activeStaff.map((member) => (
+                  <Card
+                    key={member.id}
+                    onClick={() => chooseCook(member)}
+                    className="flex h-20 cursor-pointer items-center justify-center p-4 text-center text-lg font-semibold transition-all hover:bg-accent/50 active:scale-[0.98]"
+                  >
+                    {member.name}
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )
+        ) : (
+          <div className="w-full max-w-xs">
+            <button
+              onClick={() => chooseCook(null)}
+              className="mb-2 flex items-center text-sm text-muted-foreground hover:underline"
+            >
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Not {selected.name}?
+            </button>
+            <p className="mb-4 text-center text-lg font-semibold">{selected.name}</p>
+
+            {/* Entered digits */}
+            <div className="mb-2 flex justify-center gap-3" aria-label={`${pin.length} digits entered`}>
+              {Array.from({ length: MAX_PIN_LENGTH }, (_, i) => (
+                <span
+                  key={i}
+                  className={cn(
+                    "h-4 w-4 rounded-full border-2 border-primary",
+                    i < pin.length && "bg-primary",
+                    i >= MIN_PIN_LENGTH && i >= pin.length && "opacity-30"
+                  )}
+                />
+              ))}
+            </div>
+            <p className={cn("mb-4 h-5 text-center text-sm", error ? "text-destructive" : "text-muted-foreground")}>
+              {error || "Enter your PIN"}
+            </p>
+
+            <div className="grid grid-cols-3 gap-3">
+              {KEYS.map((key) => (
+                <Button
+                  key={key}
+                  variant="outline"
+                  className="h-16 text-2xl font-semibold"
+                  onClick={() => pressKey(key)}
+                  disabled={isChecking}
+                >
+                  {key}
+                </Button>
+              ))}
+              <Button
+                variant="ghost"
+                className="h-16"
+                onClick={() => setPin((prev) => prev.slice(0, -1))}
+                disabled={isChecking || pin.length === 0}
+                aria-label="Delete digit"
+              >
+                <Delete className="h-6 w-6" />
+              </Button>
+              <Button
+                variant="outline"
+                className="h-16 text-2xl font-semibold"
+                onClick={() => pressKey("0")}
+                disabled={isChecking}
+              >
+                0
+              </Button>
+              <Button
+                className="h-16 text-lg"
+                onClick={handleSubmit}
+                disabled={isChecking || pin.length < MIN_PIN_LENGTH}
+              >
+                {isChecking ? <Loader2 className="h-5 w-5 animate-spin" /> : "Go"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default StaffPinPad;
@@ -0,0 +1,76 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Check, Trash2 } from "lucide-react";
+import { formatQuantity } from "@/lib/units";
+import { formatKitchenDate } from "@/lib/kitchenDate";
+import type { StockFlag } from "@/lib/shelfLife";
+
+export interface FlaggedLot {
+  id: string;
+  name: string;
+  unit: string;
+  quantity_remaining: number;
+  prepped_on: string;
+  expires_on: string;
+  flag: StockFlag;
+}
+
+interface StockAlertsProps {
+  lots: FlaggedLot[];
+  onUsed: (id: string) => void;
+  onDiscarded: (id: string) => void;
+}
+
+const formatShortDate = (date: string) =>
+  formatKitchenDate(date, { weekday: "short", month: "short", day: "numeric" });
+
+const StockAlerts = ({ lots, onUsed, onDiscarded }: StockAlertsProps) => {
+  if (lots.length === 0) return null;
+
+  // Discards first: they have to come off the shelf before service
+  const sorted = [...lots].sort(
+    (a, b) => (a.flag === b.flag ? a.name.localeCompare(b.name) : a.flag === "discard" ? -1 : 1)
+  );
+
+  return (
+    <Card className="mb-4 border-2 border-status-progress/50 p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <AlertTriangle className="h-5 w-5 text-status-progress-foreground" />
+        <h2 className="font-semibold">Use First / Discard</h2>
+      </div>
+      <div className="space-y-2">
+        {sorted.map((lot) => (
+          <div key={lot.id} className="flex items-center gap-3">
+            <Badge variant={lot.flag === "discard" ? "destructive" : "secondary"} className="w-20 justify-center">
+              {lot.flag === "discard" ? "Discard" : "Use first"}
+            </Badge>
+            <div className="min-w-0 flex-1">
+              <p className="truncate font-medium">
+                {lot.name}{" "}
+                <span className="font-normal text-muted-foreground">
+                  {formatQuantity(lot.quantity_remaining)} {lot.unit}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Prepped {formatShortDate(lot.prepped_on)} · use by {formatShortDate(lot.expires_on)}
+              </p>
+            </div>
+            {lot.flag === "use_first" && (
+              <Button variant="outline" size="sm" onClick={() => onUsed(lot.id)}>
+                <Check className="mr-1 h-4 w-4" />
+                Used
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => onDiscarded(lot.id)}>
+              <Trash2 className="mr-1 h-4 w-4" />
+              Tossed
+            </Button>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default StockAlerts;
@@ -14,11 +14,98 @@ export type Database = {
   }
   public: {
     Tables: {
+      menu_item_aliases: {
+        Row: {
+          alias: string
+          alias_key: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          menu_item_id: string
+          source: Database["public"]["Enums"]["menu_item_alias_source"]
+          updated_at: string
+        }
+        Insert: {
+          alias: string
+          alias_key?: never
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          menu_item_id: string
+          source?: Database["public"]["Enums"]["menu_item_alias_source"]
+          updated_at?: string
+        }
+        Update: {
+          alias?: string
+          alias_key?: never
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          menu_item_id?: string
+          source?: Database["public"]["Enums"]["menu_item_alias_source"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_aliases_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_item_components: {
+        Row: {
+          component_id: string
+          created_at: string
+          id: string
+          menu_item_id: string
+          quantity_per_portion: number
+          updated_at: string
+        }
+        Insert: {
+          component_id: string
+          created_at?: string
+          id?: string
+          menu_item_id: string
+          quantity_per_portion: number
+          updated_at?: string
+        }
+        Update: {
+          component_id?: string
+          created_at?: string
+          id?: string
+          menu_item_id?: string
+          quantity_per_portion?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_components_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "prep_components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_components_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu_items: {
         Row: {
+          batch_container: string | null
+          batch_container_quantity: number | null
+          batch_increment: number | null
           created_at: string
           id: string
           is_active: boolean
+          min_batch: number | null
           name: string
           recipe_id: string | null
           station: Database["public"]["Enums"]["kitchen_station"]
@@ -26,9 +113,13 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          batch_container?: string | null
+          batch_container_quantity?: number | null
+          batch_increment?: number | null
           created_at?: string
           id?: string
           is_active?: boolean
+          min_batch?: number | null
           name: string
           recipe_id?: string | null
           station: Database["public"]["Enums"]["kitchen_station"]
@@ -36,9 +127,13 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          batch_container?: string | null
+          batch_container_quantity?: number | null
+          batch_increment?: number | null
           created_at?: string
           id?: string
           is_active?: boolean
+          min_batch?: number | null
           name?: string
           recipe_id?: string | null
           station?: Database["public"]["Enums"]["kitchen_station"]
@@ -55,6 +150,73 @@ export type Database = {
           },
         ]
       }
+      modifier_sales: {
+        Row: {
+          created_at: string
+          id: string
+          modifier_id: string
+          quantity_sold: number
+          sales_date: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          modifier_id: string
+          quantity_sold?: number
+          sales_date: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          modifier_id?: string
+          quantity_sold?: number
+          sales_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_sales_modifier_id_fkey"
+            columns: ["modifier_id"]
+            isOneToOne: false
+            referencedRelation: "sales_modifiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      on_hand_counts: {
+        Row: {
+          count_date: string
+          created_at: string
+          id: string
+          menu_item_id: string
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          count_date: string
+          created_at?: string
+          id?: string
+          menu_item_id: string
+          quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          count_date?: string
+          created_at?: string
+          id?: string
+          menu_item_id?: string
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "on_hand_counts_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       par_levels: {
         Row: {
           created_at: string
@@ -90,35 +252,266 @@ export type Database = {
           },
         ]
       }
+      par_overrides: {
+        Row: {
+          created_at: string
+          id: string
+          label: string
+          menu_item_id: string | null
+          multiplier: number | null
+          override_date: string
+          par_quantity: number | null
+          station: Database["public"]["Enums"]["kitchen_station"] | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label: string
+          menu_item_id?: string | null
+          multiplier?: number | null
+          override_date: string
+          par_quantity?: number | null
+          station?: Database["public"]["Enums"]["kitchen_station"] | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string
+          menu_item_id?: string | null
+          multiplier?: number | null
+          override_date?: string
+          par_quantity?: number | null
+          station?: Database["public"]["Enums"]["kitchen_station"] | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "par_overrides_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prep_components: {
+        Row: {
+          batch_container: string | null
+          batch_container_quantity: number | null
+          batch_increment: number | null
+          created_at: string
+          id: string
+          is_active: boolean
+          min_batch: number | null
+          name: string
+          recipe_id: string | null
+          station: Database["public"]["Enums"]["kitchen_station"]
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          batch_container?: string | null
+          batch_container_quantity?: number | null
+          batch_increment?: number | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          min_batch?: number | null
+          name: string
+          recipe_id?: string | null
+          station: Database["public"]["Enums"]["kitchen_station"]
+          unit?: string
+          updated_at?: string
+        }
+        Update: {
+          batch_container?: string | null
+          batch_container_quantity?: number | null
+          batch_increment?: number | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          min_batch?: number | null
+          name?: string
+          recipe_id?: string | null
+          station?: Database["public"]["Enums"]["kitchen_station"]
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prep_components_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prep_list_item_events: {
+        Row: {
+          created_at: string
+          event_type: Database["public"]["Enums"]["prep_event_type"]
+          from_value: string | null
+          id: string
+          item_name: string
+          prep_list_id: string
+          prep_list_item_id: string
+          staff_member_id: string | null
+          to_value: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          event_type: Database["public"]["Enums"]["prep_event_type"]
+          from_value?: string | null
+          id?: string
+          item_name: string
+          prep_list_id: string
+          prep_list_item_id: string
+          staff_member_id?: string | null
+          to_value?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          event_type?: Database["public"]["Enums"]["prep_event_type"]
+          from_value?: string | null
+          id?: string
+          item_name?: string
+          prep_list_id?: string
+          prep_list_item_id?: string
+          staff_member_id?: string | null
+          to_value?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prep_list_item_events_staff_member_id_fkey"
+            columns: ["staff_member_id"]
+            isOneToOne: false
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       prep_list_items: {
         Row: {
+          active_seconds: number
+          assigned_to: string | null
+          batch_container: string | null
+          batch_count: number | null
+          calculation_method: Database["public"]["Enums"]["prep_calculation_method"]
+          completed_at: string | null
+          completed_by: string | null
+          component_id: string | null
+          container_quantity: number | null
           created_at: string
+          estimated_minutes: number | null
+          expires_on: string | null
+          forecast_quantity: number | null
           id: string
-          menu_item_id: string
+          in_date_quantity: number | null
+          is_paused: boolean
+          menu_item_id: string | null
+          on_hand_quantity: number | null
+          par_quantity: number | null
           prep_list_id: string
           quantity_needed: number
+          quantity_produced: number | null
+          raw_quantity: number | null
+          source_items: Json | null
+          started_at: string | null
           status: Database["public"]["Enums"]["prep_status"]
+          sub_recipe_batches: Json | null
+          timer_started_at: string | null
           updated_at: string
         }
         Insert: {
+          active_seconds?: number
+          assigned_to?: string | null
+          batch_container?: string | null
+          batch_count?: number | null
+          calculation_method?: Database["public"]["Enums"]["prep_calculation_method"]
+          completed_at?: string | null
+          completed_by?: string | null
+          component_id?: string | null
+          container_quantity?: number | null
           created_at?: string
+          estimated_minutes?: number | null
+          expires_on?: string | null
+          forecast_quantity?: number | null
           id?: string
-          menu_item_id: string
+          in_date_quantity?: number | null
+          is_paused?: boolean
+          menu_item_id?: string | null
+          on_hand_quantity?: number | null
+          par_quantity?: number | null
           prep_list_id: string
           quantity_needed?: number
+          quantity_produced?: number | null
+          raw_quantity?: number | null
+          source_items?: Json | null
+          started_at?: string | null
           status?: Database["public"]["Enums"]["prep_status"]
+          sub_recipe_batches?: Json | null
+          timer_started_at?: string | null
           updated_at?: string
         }
         Update: {
+          active_seconds?: number
+          assigned_to?: string | null
+          batch_container?: string | null
+          batch_count?: number | null
+          calculation_method?: Database["public"]["Enums"]["prep_calculation_method"]
+          completed_at?: string | null
+          completed_by?: string | null
+          component_id?: string | null
+          container_quantity?: number | null
           created_at?: string
+          estimated_minutes?: number | null
+          expires_on?: string | null
+          forecast_quantity?: number | null
           id?: string
-          menu_item_id?: string
+          in_date_quantity?: number | null
+          is_paused?: boolean
+          menu_item_id?: string | null
+          on_hand_quantity?: number | null
+          par_quantity?: number | null
           prep_list_id?: string
           quantity_needed?: number
+          quantity_produced?: number | null
+          raw_quantity?: number | null
+          source_items?: Json | null
+          started_at?: string | null
           status?: Database["public"]["Enums"]["prep_status"]
+          sub_recipe_batches?: Json | null
+          timer_started_at?: string | null
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "prep_list_items_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prep_list_items_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prep_list_items_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "prep_components"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "prep_list_items_menu_item_id_fkey"
             columns: ["menu_item_id"]
@@ -156,8 +549,147 @@ export type Database = {
         }
         Relationships: []
       }
+      prep_task_durations: {
+        Row: {
+          active_seconds: number
+          completed_at: string
+          component_id: string | null
+          created_at: string
+          id: string
+          menu_item_id: string | null
+          prep_date: string
+          prep_list_item_id: string | null
+          quantity: number
+          staff_member_id: string | null
+        }
+        Insert: {
+          active_seconds: number
+          completed_at?: string
+          component_id?: string | null
+          created_at?: string
+          id?: string
+          menu_item_id?: string | null
+          prep_date: string
+          prep_list_item_id?: string | null
+          quantity: number
+          staff_member_id?: string | null
+        }
+        Update: {
+          active_seconds?: number
+          completed_at?: string
+          component_id?: string | null
+          created_at?: string
+          id?: string
+          menu_item_id?: string | null
+          prep_date?: string
+          prep_list_item_id?: string | null
+          quantity?: number
+          staff_member_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prep_task_durations_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "prep_components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prep_task_durations_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prep_task_durations_prep_list_item_id_fkey"
+            columns: ["prep_list_item_id"]
+            isOneToOne: true
+            referencedRelation: "prep_list_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prep_task_durations_staff_member_id_fkey"
+            columns: ["staff_member_id"]
+            isOneToOne: false
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prepped_product: {
+        Row: {
+          component_id: string | null
+          counted_on: string | null
+          created_at: string
+          discarded_at: string | null
+          expires_on: string | null
+          id: string
+          menu_item_id: string | null
+          prep_list_item_id: string | null
+          prepped_on: string
+          quantity: number
+          quantity_remaining: number
+          updated_at: string
+          used_at: string | null
+        }
+        Insert: {
+          component_id?: string | null
+          counted_on?: string | null
+          created_at?: string
+          discarded_at?: string | null
+          expires_on?: string | null
+          id?: string
+          menu_item_id?: string | null
+          prep_list_item_id?: string | null
+          prepped_on: string
+          quantity: number
+          quantity_remaining: number
+          updated_at?: string
+          used_at?: string | null
+        }
+        Update: {
+          component_id?: string | null
+          counted_on?: string | null
+          created_at?: string
+          discarded_at?: string | null
+          expires_on?: string | null
+          id?: string
+          menu_item_id?: string | null
+          prep_list_item_id?: string | null
+          prepped_on?: string
+          quantity?: number
+          quantity_remaining?: number
+          updated_at?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prepped_product_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "prep_components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prepped_product_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prepped_product_prep_list_item_id_fkey"
+            columns: ["prep_list_item_id"]
+            isOneToOne: false
+            referencedRelation: "prep_list_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recipes: {
         Row: {
+          allergens: string[]
           created_at: string
           file_url: string | null
           food_cost_percent: number | null
@@ -166,6 +698,7 @@ export type Database = {
           menu_price: number | null
           method: string | null
           name: string
+          page_reference: string | null
           plating_notes: string | null
           portion_cost: number | null
           recipe_cost: number | null
@@ -177,6 +710,7 @@ export type Database = {
           yield_measure: string | null
         }
         Insert: {
+          allergens?: string[]
           created_at?: string
           file_url?: string | null
           food_cost_percent?: number | null
@@ -185,6 +719,7 @@ export type Database = {
           menu_price?: number | null
           method?: string | null
           name: string
+          page_reference?: string | null
           plating_notes?: string | null
           portion_cost?: number | null
           recipe_cost?: number | null
@@ -196,6 +731,7 @@ export type Database = {
           yield_measure?: string | null
         }
         Update: {
+          allergens?: string[]
           created_at?: string
           file_url?: string | null
           food_cost_percent?: number | null
@@ -204,6 +740,7 @@ export type Database = {
           menu_price?: number | null
           method?: string | null
           name?: string
+          page_reference?: string | null
           plating_notes?: string | null
           portion_cost?: number | null
           recipe_cost?: number | null
@@ -248,6 +785,235 @@ export type Database = {
           },
         ]
       }
+      sales_ignore_rules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          match_type: Database["public"]["Enums"]["sales_ignore_match_type"]
+          note: string | null
+          pattern: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: Database["public"]["Enums"]["sales_ignore_match_type"]
+          note?: string | null
+          pattern: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: Database["public"]["Enums"]["sales_ignore_match_type"]
+          note?: string | null
+          pattern?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sales_modifiers: {
+        Row: {
+          component_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          menu_item_id: string | null
+          name: string
+          name_key: string | null
+          quantity_per_unit: number
+          updated_at: string
+        }
+        Insert: {
+          component_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          menu_item_id?: string | null
+          name: string
+          name_key?: never
+          quantity_per_unit?: number
+          updated_at?: string
+        }
+        Update: {
+          component_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          menu_item_id?: string | null
+          name?: string
+          name_key?: never
+          quantity_per_unit?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_modifiers_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "prep_components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_modifiers_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_uploads: {
+        Row: {
+          created_at: string
+          file_name: string
+          file_path: string
+          id: string
+          line_count: number
+          matched_count: number
+          parse_result: Json
+          parser: Database["public"]["Enums"]["sales_report_parser"]
+          reparsed_at: string | null
+          sales_date: string
+          saved_at: string | null
+          updated_at: string
+          uploaded_by: string | null
+          uploaded_by_email: string | null
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          file_path: string
+          id?: string
+          line_count?: number
+          matched_count?: number
+          parse_result?: Json
+          parser: Database["public"]["Enums"]["sales_report_parser"]
+          reparsed_at?: string | null
+          sales_date: string
+          saved_at?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+          uploaded_by_email?: string | null
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          line_count?: number
+          matched_count?: number
+          parse_result?: Json
+          parser?: Database["public"]["Enums"]["sales_report_parser"]
+          reparsed_at?: string | null
+          sales_date?: string
+          saved_at?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+          uploaded_by_email?: string | null
+        }
+        Relationships: []
+      }
+      staff_members: {
+        Row: {
+          created_at: string
+          id: string
+          initials: string | null
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          initials?: string | null
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          initials?: string | null
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      staff_pins: {
+        Row: {
+          created_at: string
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          staff_member_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          staff_member_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          staff_member_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_pins_staff_member_id_fkey"
+            columns: ["staff_member_id"]
+            isOneToOne: true
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_sessions: {
+        Row: {
+          created_at: string
+          expires_at: string
+          staff_member_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          staff_member_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          staff_member_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_sessions_staff_member_id_fkey"
+            columns: ["staff_member_id"]
+            isOneToOne: false
+            referencedRelation: "staff_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -274,6 +1040,25 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      admin_exists: { Args: never; Returns: boolean }
+      current_staff_member: { Args: never; Returns: string }
+      draw_down_dish_sales: {
+        Args: { _menu_item_id: string; _quantity: number; _sales_date: string }
+        Returns: undefined
+      }
+      draw_down_modifier_sales: {
+        Args: { _modifier_id: string; _quantity: number; _sales_date: string }
+        Returns: undefined
+      }
+      draw_down_prepped_product: {
+        Args: {
+          _component_id: string
+          _menu_item_id: string
+          _quantity: number
+          _sales_date: string
+        }
+        Returns: undefined
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -281,11 +1066,36 @@ export type Database = {
         }
         Returns: boolean
       }
+      set_staff_pin: {
+        Args: { _pin: string; _staff_member_id: string }
+        Returns: undefined
+      }
+      staff_sign_in: {
+        Args: { _pin: string; _staff_member_id: string }
+        Returns: boolean
+      }
+      staff_sign_out: { Args: never; Returns: undefined }
     }
     Enums: {
       app_role: "admin" | "staff"
       kitchen_station: "grill" | "saute" | "fry" | "salad" | "line"
+      menu_item_alias_source: "manual_match" | "admin"
+      prep_calculation_method:
+        | "par_minus_on_hand"
+        | "sales"
+        | "forecast"
+        | "component_rollup"
+        | "par_override"
+      prep_event_type:
+        | "status"
+        | "quantity_needed"
+        | "quantity_produced"
+        | "assignment"
+        | "created"
+        | "deleted"
       prep_status: "open" | "in_progress" | "completed"
+      sales_ignore_match_type: "exact" | "prefix" | "regex"
+      sales_report_parser: "pos_report" | "ai"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -415,7 +1225,25 @@ export const Constants = {
     Enums: {
       app_role: ["admin", "staff"],
       kitchen_station: ["grill", "saute", "fry", "salad", "line"],
+      menu_item_alias_source: ["manual_match", "admin"],
+      prep_calculation_method: [
+        "par_minus_on_hand",
+        "sales",
+        "forecast",
+        "component_rollup",
+        "par_override",
+      ],
+      prep_event_type: [
+        "status",
+        "quantity_needed",
+        "quantity_produced",
+        "assignment",
+        "created",
+        "deleted",
+      ],
       prep_status: ["open", "in_progress", "completed"],
+      sales_ignore_match_type: ["exact", "prefix", "regex"],
+      sales_report_parser: ["pos_report", "ai"],
     },
   },
 } as const
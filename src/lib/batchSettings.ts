@@ -0,0 +1,45 @@
+/**
+ * Batch settings as edited in the admin forms. Dishes and prep components
+ * store the same four columns; the generator rounds prep up with them.
+ */
+
+// Form values are kept as text while editing; blank means "not set"
+export interface BatchSettingsValues {
+  minBatch: string;
+  batchIncrement: string;
+  batchContainer: string;
+  batchContainerQuantity: string;
+}
+
+export const EMPTY_BATCH_SETTINGS: BatchSettingsValues = {
+  minBatch: "",
+  batchIncrement: "",
+  batchContainer: "",
+  batchContainerQuantity: "",
+};
+
+export interface StoredBatchSettings {
+  min_batch: number | null;
+  batch_increment: number | null;
+  batch_container: string | null;
+  batch_container_quantity: number | null;
+}
+
+export const toBatchSettingsValues = (settings: StoredBatchSettings): BatchSettingsValues => ({
+  minBatch: settings.min_batch?.toString() ?? "",
+  batchIncrement: settings.batch_increment?.toString() ?? "",
+  batchContainer: settings.batch_container ?? "",
+  batchContainerQuantity: settings.batch_container_quantity?.toString() ?? "",
+});
+
+const toPositiveNumber = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return parsed > 0 ? parsed : null;
+};
+
+export const fromBatchSettingsValues = (values: BatchSettingsValues): StoredBatchSettings => ({
+  min_batch: toPositiveNumber(values.minBatch),
+  batch_increment: toPositiveNumber(values.batchIncrement),
+  batch_container: values.batchContainer.trim() || null,
+  batch_container_quantity: toPositiveNumber(values.batchContainerQuantity),
+});
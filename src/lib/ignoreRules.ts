@@ -0,0 +1,12 @@
+/**
+ * Sales ignore rule helpers for the React app, shared with the edge functions.
+ */
+
+export {
+  applyIgnoreRules,
+  describeIgnoreRule,
+  findIgnoreRule,
+  isValidIgnorePattern,
+  type IgnoreMatchType,
+  type IgnoreRule,
+} from "../../supabase/functions/_shared/ignoreRules.ts";
@@ -2,9 +2,16 @@
  * Utility functions for fuzzy matching parsed sales items to menu items
  */
 
+import { getNameKey } from '../../supabase/functions/_shared/names.ts';
+
 export interface MatchResult {
   item: { id: string; name: string } | null;
-  confidence: 'exact' | 'normalized' | 'fuzzy' | 'none';
+  confidence: 'alias' | 'exact' | 'normalized' | 'fuzzy' | 'none';
+}
+
+export interface ItemAlias {
+  alias: string; // Item name as the POS reports it
+  menu_item_id: string;
 }
 
 /**
@@ -23,6 +30,25 @@ export const normalizeItemName = (name: string): string => {
     .trim();
 };
 
+/**
+ * Key a POS name is saved under. Matches the alias_key column of menu_item_aliases.
+ */
+export const getAliasKey = getNameKey;
+
+/**
+ * Find the menu item a POS name was saved as an alias of
+ */
+export const findAliasMatch = (
+  parsedName: string,
+  menuItems: { id: string; name: string }[],
+  aliases: ItemAlias[]
+): MatchResult | null => {
+  const key = getAliasKey(parsedName);
+  const alias = aliases.find(a => getAliasKey(a.alias) === key);
+  const item = alias && menuItems.find(m => m.id === alias.menu_item_id);
+  return item ? { item, confidence: 'alias' } : null;
+};
+
 /**
  * Calculate simple similarity score between two strings
  * Returns a value between 0 and 1
@@ -51,16 +77,24 @@ const calculateSimilarity = (str1: string, str2: string): number => {
 };
 
 /**
- * Find the best matching menu item for a parsed item name
+ * Find the best matching menu item for a parsed item name.
+ * Saved aliases win over any name matching.
  */
 export const findBestMatch = (
   parsedName: string,
-  menuItems: { id: string; name: string }[]
+  menuItems: { id: string; name: string }[],
+  aliases: ItemAlias[] = []
 ): MatchResult => {
   if (!parsedName || menuItems.length === 0) {
     return { item: null, confidence: 'none' };
   }
 
+  // 0. Try a saved alias
+  const aliasMatch = findAliasMatch(parsedName, menuItems, aliases);
+  if (aliasMatch) {
+    return aliasMatch;
+  }
+
   const normalizedParsed = normalizeItemName(parsedName);
 
   // 1. Try exact match (case-insensitive)
@@ -104,6 +138,7 @@ export const findBestMatch = (
  */
 export const getConfidenceColor = (confidence: MatchResult['confidence']): string => {
   switch (confidence) {
+    case 'alias':
     case 'exact':
       return 'text-green-500';
     case 'normalized':
@@ -120,6 +155,8 @@ export const getConfidenceColor = (confidence: MatchResult['confidence']): strin
  */
 export const getConfidenceLabel = (confidence: MatchResult['confidence']): string => {
   switch (confidence) {
+    case 'alias':
+      return 'Saved';
     case 'exact':
       return 'Exact';
     case 'normalized':
@@ -0,0 +1,21 @@
+/**
+ * Kitchen calendar helpers for the React app.
+ * Shares its date math with the edge functions so both sides agree on "today".
+ */
+
+import { DEFAULT_KITCHEN_TIMEZONE, getKitchenDate } from "../../supabase/functions/_shared/dates.ts";
+
+export {
+  addDays,
+  formatKitchenDate,
+  getDayOfWeek,
+  isValidDateString,
+} from "../../supabase/functions/_shared/dates.ts";
+
+export const KITCHEN_TIMEZONE: string =
+  import.meta.env.VITE_KITCHEN_TIMEZONE || DEFAULT_KITCHEN_TIMEZONE;
+
+/**
+ * Today's date in the kitchen's timezone (YYYY-MM-DD)
+ */
+export const getKitchenToday = (): string => getKitchenDate(KITCHEN_TIMEZONE);
@@ -0,0 +1,111 @@
+/**
+ * Prep labels (day dots) for finished prep. Labels are laid out as a
+ * print-ready HTML sheet, one label per page at the size of the label stock,
+ * which is what thermal label printers expect.
+ */
+
+import { formatKitchenDate, KITCHEN_TIMEZONE } from "@/lib/kitchenDate";
+
+export type LabelStock = "2x2" | "1x2";
+
+export const LABEL_STOCKS: Record<LabelStock, { label: string; width: number; height: number }> = {
+  "2x2": { label: '2" × 2"', width: 2, height: 2 },
+  "1x2": { label: '1" × 2"', width: 2, height: 1 },
+};
+
+export interface PrepLabel {
+  name: string;
+  preppedAt: string; // ISO timestamp the item was finished
+  useBy: string | null; // Last service day (YYYY-MM-DD)
+  preppedBy: string | null; // Initials, or else the name, of the staff member who finished it
+  allergens: string[];
+  quantity?: string; // e.g. "3 qt"
+}
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+
+/**
+ * Prep time in the kitchen's timezone, e.g. "Mon 2/9 10:42 AM"
+ */
+export const formatPrepTime = (iso: string): string =>
+  new Date(iso).toLocaleString("en-US", {
+    weekday: "short",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: KITCHEN_TIMEZONE,
+  });
+
+export const formatUseBy = (date: string): string =>
+  formatKitchenDate(date, { weekday: "short", month: "numeric", day: "numeric" });
+
+const renderLabel = (label: PrepLabel, stock: LabelStock): string => {
+  const compact = stock === "1x2";
+  const allergens = label.allergens.length > 0 ? label.allergens.join(", ") : null;
+  return `
+    <div class="label${compact ? " compact" : ""}">
+      <div class="name">${escapeHtml(label.name)}</div>
+      ${label.quantity && !compact ? `<div class="row">${escapeHtml(label.quantity)}</div>` : ""}
+      <div class="row"><b>Prep</b> ${escapeHtml(formatPrepTime(label.preppedAt))}</div>
+      <div class="row use-by"><b>Use by</b> ${label.useBy ? escapeHtml(formatUseBy(label.useBy)) : "—"}</div>
+      <div class="row by"><b>By</b> ${escapeHtml(label.preppedBy || "____")}</div>
+      ${allergens ? `<div class="row allergens"><b>Contains</b> ${escapeHtml(allergens)}</div>` : ""}
+    </div>`;
+};
+
+/**
+ * Complete HTML document for a run of labels on the chosen stock
+ */
+export const buildLabelSheet = (labels: PrepLabel[], stock: LabelStock): string => {
+  const { width, height } = LABEL_STOCKS[stock];
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Prep Labels</title>
+<style>
+  @page { size: ${width}in ${height}in; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #000; }
+  .label {
+    width: ${width}in;
+    height: ${height}in;
+    padding: 0.08in;
+    overflow: hidden;
+    page-break-after: always;
+    break-after: page;
+    font-size: 9pt;
+    line-height: 1.2;
+  }
+  .label:last-child { page-break-after: auto; break-after: auto; }
+  .name { font-size: 13pt; font-weight: bold; margin-bottom: 0.04in; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .use-by { font-size: 11pt; }
+  .by { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .allergens { margin-top: 0.04in; font-size: 8pt; text-transform: uppercase; }
+  .compact { font-size: 7pt; padding: 0.05in 0.08in; }
+  .compact .name { font-size: 10pt; margin-bottom: 0.02in; }
+  .compact .use-by { font-size: 8pt; }
+  .compact .allergens { margin-top: 0; font-size: 6pt; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+</style>
+</head>
+<body>${labels.map((label) => renderLabel(label, stock)).join("")}</body>
+</html>`;
+};
+
+/**
+ * Open the label sheet in a new window and bring up the print dialog.
+ * Returns false when the browser blocked the window.
+ */
+export const printLabels = (labels: PrepLabel[], stock: LabelStock): boolean => {
+  const printWindow = window.open("", "_blank", "width=480,height=640");
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(buildLabelSheet(labels, stock));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.onafterprint = () => printWindow.close();
+  printWindow.print();
+  return true;
+};
@@ -0,0 +1,9 @@
+/**
+ * Prep labor helpers for the React app, shared with the prep list generator.
+ */
+
+export {
+  formatLaborMinutes,
+  totalLaborByStation,
+  type StationLabor,
+} from "../../supabase/functions/_shared/labor.ts";
@@ -0,0 +1,11 @@
+/**
+ * POS modifier helpers for the React app, shared with the prep list generator.
+ */
+
+export {
+  findModifier,
+  getModifierUsage,
+  splitModifierSales,
+  type ModifierSale,
+  type SalesModifier,
+} from "../../supabase/functions/_shared/modifiers.ts";
@@ -0,0 +1,5 @@
+/**
+ * Paged reads for queries that can return more than 1000 rows.
+ */
+
+export { PAGE_SIZE, fetchAllRows } from "../../supabase/functions/_shared/pagination.ts";
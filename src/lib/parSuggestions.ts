@@ -0,0 +1,81 @@
+/**
+ * Par level suggestions from historical sales
+ */
+
+import { getDayOfWeek } from "@/lib/kitchenDate";
+
+export interface SalesRecord {
+  menu_item_id: string;
+  sales_date: string;
+  quantity_sold: number;
+}
+
+export interface ParSuggestionOptions {
+  percentile: number; // 0-100, e.g. 75 covers three out of four days
+  bufferPercent: number; // Safety stock on top of the percentile
+}
+
+export interface ParSuggestion {
+  menu_item_id: string;
+  day_of_week: number;
+  current: number | null;
+  suggested: number;
+  sampleCount: number;
+}
+
+/**
+ * Percentile with linear interpolation between closest ranks
+ */
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * Suggest a par from a set of daily sales: chosen percentile plus a safety buffer, rounded up
+ */
+export const suggestPar = (dailySales: number[], options: ParSuggestionOptions): number => {
+  const base = percentile(dailySales, options.percentile);
+  return Math.ceil(base * (1 + options.bufferPercent / 100));
+};
+
+/**
+ * Build par suggestions per menu item and weekday.
+ * Every date with any sales uploaded counts as a sample; an item missing
+ * from that day's report is treated as zero sold.
+ */
+export const buildParSuggestions = (
+  sales: SalesRecord[],
+  menuItemIds: string[],
+  currentPars: Map<string, number>, // keyed by `${menu_item_id}:${day_of_week}`
+  options: ParSuggestionOptions
+): ParSuggestion[] => {
+  const reportedDates = Array.from(new Set(sales.map((s) => s.sales_date)));
+  const salesByKey = new Map(sales.map((s) => [`${s.menu_item_id}:${s.sales_date}`, s.quantity_sold]));
+
+  const datesByDay = new Map<number, string[]>();
+  reportedDates.forEach((date) => {
+    const day = getDayOfWeek(date);
+    datesByDay.set(day, [...(datesByDay.get(day) || []), date]);
+  });
+
+  const suggestions: ParSuggestion[] = [];
+  for (const menuItemId of menuItemIds) {
+    for (const [day, dates] of datesByDay) {
+      const dailySales = dates.map((date) => salesByKey.get(`${menuItemId}:${date}`) || 0);
+      suggestions.push({
+        menu_item_id: menuItemId,
+        day_of_week: day,
+        current: currentPars.get(`${menuItemId}:${day}`) ?? null,
+        suggested: suggestPar(dailySales, options),
+        sampleCount: dailySales.length,
+      });
+    }
+  }
+
+  return suggestions;
+};
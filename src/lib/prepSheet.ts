@@ -0,0 +1,208 @@
+/**
+ * Paper prep lists. A prep sheet is laid out as print-ready HTML with each
+ * station on its own page, so a station can take its page off the printer.
+ * The same rows export as CSV for spreadsheets.
+ */
+
+import { formatKitchenDate } from "@/lib/kitchenDate";
+import { escapeHtml } from "@/lib/labels";
+import { formatQuantity } from "@/lib/units";
+
+export interface PrepSheetRow {
+  station: string;
+  name: string;
+  quantity: number;
+  quantityProduced: number | null; // What the cook logged as made
+  unit: string;
+  batchCount: number | null;
+  batchContainer: string | null;
+  containerQuantity: number | null;
+  recipeName: string | null;
+  pageReference: string | null; // Where the recipe is in the recipe book
+  completed: boolean;
+}
+
+export interface PrepSheetStation {
+  value: string;
+  label: string;
+}
+
+// "2 batches ≈ 3 qt", or null when the task isn't batched
+const formatBatches = (row: PrepSheetRow): string | null => {
+  if (!row.batchCount) return null;
+  const batches = `${row.batchCount} ${row.batchCount === 1 ? "batch" : "batches"}`;
+  return row.containerQuantity != null && row.batchContainer
+    ? `${batches} ≈ ${formatQuantity(row.containerQuantity)} ${row.batchContainer}`
+    : batches;
+};
+
+// Recipe name plus its book page, e.g. "Chimichurri (Binder 2, p. 14)"
+const formatRecipe = (row: PrepSheetRow): string => {
+  if (!row.recipeName) return row.pageReference || "";
+  return row.pageReference ? `${row.recipeName} (${row.pageReference})` : row.recipeName;
+};
+
+/**
+ * Rows for each station in station order, skipping stations with nothing to prep
+ */
+const groupByStation = (rows: PrepSheetRow[], stations: PrepSheetStation[]) =>
+  stations
+    .map((station) => ({
+      station,
+      rows: rows
+        .filter((row) => row.station === station.value && row.quantity > 0)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .filter((group) => group.rows.length > 0);
+
+const renderStation = (
+  prepDate: string,
+  station: PrepSheetStation,
+  rows: PrepSheetRow[]
+): string => `
+  <section class="station">
+    <header>
+      <h1>${escapeHtml(station.label)}</h1>
+      <div class="date">${escapeHtml(formatKitchenDate(prepDate))}</div>
+    </header>
+    <table>
+      <thead>
+        <tr>
+          <th class="check"></th>
+          <th>Item</th>
+          <th class="qty">Qty</th>
+          <th>Unit</th>
+          <th>Batches</th>
+          <th>Recipe</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${rows
+          .map(
+            (row) => `
+        <tr>
+          <td class="check"><span class="box">${row.completed ? "✓" : ""}</span></td>
+          <td class="name">${escapeHtml(row.name)}</td>
+          <td class="qty">${formatQuantity(row.quantity)}</td>
+          <td>${escapeHtml(row.unit)}</td>
+          <td>${escapeHtml(formatBatches(row) || "")}</td>
+          <td>${escapeHtml(formatRecipe(row))}</td>
+        </tr>`
+          )
+          .join("")}
+      </tbody>
+    </table>
+    <footer>Initials ________ &nbsp; Finished at ________</footer>
+  </section>`;
+
+/**
+ * Complete HTML document for a day's prep list, one page per station
+ */
+export const buildPrepSheet = (
+  prepDate: string,
+  rows: PrepSheetRow[],
+  stations: PrepSheetStation[]
+): string => {
+  const groups = groupByStation(rows, stations);
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>prep-list-${prepDate}</title>
+<style>
+  @page { size: letter portrait; margin: 0.5in; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #000; font-size: 11pt; }
+  .station { page-break-after: always; break-after: page; }
+  .station:last-child { page-break-after: auto; break-after: auto; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #000; margin-bottom: 0.15in; }
+  h1 { margin: 0 0 0.05in; font-size: 20pt; }
+  .date { font-size: 12pt; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 9pt; text-transform: uppercase; border-bottom: 1px solid #000; padding: 0.04in; }
+  td { padding: 0.08in 0.04in; border-bottom: 1px solid #999; vertical-align: middle; }
+  tr { page-break-inside: avoid; break-inside: avoid; }
+  .check { width: 0.35in; }
+  .box { display: inline-block; width: 0.2in; height: 0.2in; border: 1.5px solid #000; text-align: center; line-height: 0.2in; font-weight: bold; }
+  .name { font-weight: bold; }
+  .qty { text-align: right; font-weight: bold; font-size: 13pt; }
+  footer { margin-top: 0.3in; font-size: 10pt; }
+  .empty { font-size: 14pt; text-align: center; margin-top: 1in; }
+</style>
+</head>
+<body>${
+    groups.length > 0
+      ? groups.map(({ station, rows }) => renderStation(prepDate, station, rows)).join("")
+      : `<p class="empty">Nothing to prep for ${escapeHtml(formatKitchenDate(prepDate))}</p>`
+  }</body>
+</html>`;
+};
+
+/**
+ * Open the prep sheet in a new window and bring up the print dialog, where
+ * "Save as PDF" gives a PDF copy. Returns false when the browser blocked the window.
+ */
+export const printPrepSheet = (
+  prepDate: string,
+  rows: PrepSheetRow[],
+  stations: PrepSheetStation[]
+): boolean => {
+  const printWindow = window.open("", "_blank", "width=816,height=1056");
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(buildPrepSheet(prepDate, rows, stations));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.onafterprint = () => printWindow.close();
+  printWindow.print();
+  return true;
+};
+
+const csvCell = (value: string | number | null): string => {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV of the same rows as the printed sheet, in station order
+ */
+export const buildPrepSheetCsv = (
+  prepDate: string,
+  rows: PrepSheetRow[],
+  stations: PrepSheetStation[]
+): string => {
+  const header = ["Prep Date", "Station", "Item", "Quantity", "Made", "Unit", "Batches", "Recipe", "Recipe Page", "Done"];
+  const lines = groupByStation(rows, stations).flatMap(({ station, rows }) =>
+    rows.map((row) => [
+      prepDate,
+      station.label,
+      row.name,
+      row.quantity,
+      row.quantityProduced,
+      row.unit,
+      row.batchCount,
+      row.recipeName,
+      row.pageReference,
+      row.completed ? "yes" : "no",
+    ])
+  );
+  return [header, ...lines].map((line) => line.map(csvCell).join(",")).join("\n");
+};
+
+/**
+ * Save the prep list as a CSV file named for its date
+ */
+export const downloadPrepSheetCsv = (
+  prepDate: string,
+  rows: PrepSheetRow[],
+  stations: PrepSheetStation[]
+) => {
+  const blob = new Blob([buildPrepSheetCsv(prepDate, rows, stations)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `prep-list-${prepDate}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
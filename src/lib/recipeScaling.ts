@@ -0,0 +1,73 @@
+/**
+ * Recipe scaling and costing for the React app.
+ * Quantities are read through the shared unit library with this kitchen's
+ * pan sizes, scaled to the amount being prepped and rounded into
+ * kitchen-friendly units.
+ */
+
+import {
+  getLineCost,
+  getRolledUpCost as getRolledUpCostIn,
+  getScaleFactor as getScaleFactorIn,
+  getSubRecipeBatches as getSubRecipeBatchesIn,
+  type RecipeIngredient,
+  type RecipeNode,
+} from "../../supabase/functions/_shared/recipes.ts";
+import { KITCHEN_UNITS, scaleAmount, type ScaledAmount } from "@/lib/units";
+
+export { formatQuantity } from "@/lib/units";
+export {
+  findCycle,
+  parseIngredients,
+  type RecipeIngredient,
+  type RecipeNode,
+  type SubRecipeNeed,
+} from "../../supabase/functions/_shared/recipes.ts";
+
+/**
+ * Scale one ingredient line by a factor
+ */
+export const scaleIngredient = (
+  quantity: string | number | null | undefined,
+  measure: string | null | undefined,
+  factor: number
+): ScaledAmount => scaleAmount(quantity, measure, factor);
+
+/**
+ * Factor that turns a recipe's yield into the amount being prepped, or null
+ * when the yield and the prep unit can't be compared
+ */
+export const getScaleFactor = (
+  yieldAmount: string | null | undefined,
+  yieldMeasure: string | null | undefined,
+  quantityNeeded: number,
+  prepUnit: string
+): number | null => getScaleFactorIn(yieldAmount, yieldMeasure, quantityNeeded, prepUnit, KITCHEN_UNITS);
+
+/**
+ * Batches of a sub-recipe one ingredient line calls for
+ */
+export const getSubRecipeBatches = (ingredient: RecipeIngredient, subRecipe: RecipeNode): number | null =>
+  getSubRecipeBatchesIn(ingredient, subRecipe, KITCHEN_UNITS);
+
+/**
+ * Cost of one ingredient line at a scale factor
+ */
+export const getIngredientCost = (ingredient: RecipeIngredient, factor = 1): number | null => {
+  const cost = getLineCost(ingredient, KITCHEN_UNITS);
+  return cost === null ? null : cost * factor;
+};
+
+/**
+ * Total cost of a recipe from its ingredient lines, or null if none are costed
+ */
+export const getRecipeCost = (ingredients: RecipeIngredient[], factor = 1): number | null => {
+  const costs = ingredients.map((ing) => getIngredientCost(ing, factor)).filter((c): c is number => c !== null);
+  return costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) : null;
+};
+
+/**
+ * Cost of one batch with sub-recipe costs rolled up
+ */
+export const getRolledUpCost = (recipe: RecipeNode, recipes: Map<string, RecipeNode>): number | null =>
+  getRolledUpCostIn(recipe, recipes, KITCHEN_UNITS);
@@ -0,0 +1,10 @@
+/**
+ * POS Item Sales Report parser for the React app, shared with parse-sales.
+ */
+
+export {
+  parseSalesReportCsv,
+  parseSalesReportRows,
+  type ParsedSale,
+  type ReportCell,
+} from "../../supabase/functions/_shared/salesReport.ts";
@@ -0,0 +1,12 @@
+/**
+ * Shelf-life helpers for the React app, shared with the prep list generator.
+ */
+
+export {
+  getLotUseBy,
+  getStockFlag,
+  getUseByDate,
+  parseShelfLifeDays,
+  type StockFlag,
+  type StockLot,
+} from "../../supabase/functions/_shared/shelfLife.ts";
@@ -0,0 +1,46 @@
+/**
+ * Units of measure for the React app, using this kitchen's pan sizes.
+ * Shares its parsing and conversions with the edge functions.
+ */
+
+import {
+  convert as convertUnits,
+  createUnits,
+  findUnit as findUnitIn,
+  parseAmount as parseAmountIn,
+  parsePanSizes,
+  scaleAmount as scaleAmountIn,
+  type Amount,
+  type ScaledAmount,
+  type UnitDef,
+} from "../../supabase/functions/_shared/units.ts";
+
+export {
+  formatQuantity,
+  parseQuantity,
+  sameMeasure,
+  type Amount,
+  type ParsedQuantity,
+  type ScaledAmount,
+  type UnitDef,
+  type UnitFamily,
+} from "../../supabase/functions/_shared/units.ts";
+
+// Pan volumes in quarts, e.g. VITE_PAN_SIZES={"1/6 pan": 2}
+export const KITCHEN_UNITS: UnitDef[] = createUnits(parsePanSizes(import.meta.env.VITE_PAN_SIZES));
+
+export const findUnit = (text: string): UnitDef | null => findUnitIn(text, KITCHEN_UNITS);
+
+export const parseAmount = (
+  quantity: string | number | null | undefined,
+  measure?: string | null
+): Amount | null => parseAmountIn(quantity, measure, KITCHEN_UNITS);
+
+export const convert = (value: number, from: string, to: string): number | null =>
+  convertUnits(value, from, to, KITCHEN_UNITS);
+
+export const scaleAmount = (
+  quantity: string | number | null | undefined,
+  measure: string | null | undefined,
+  factor: number
+): ScaledAmount => scaleAmountIn(quantity, measure, factor, KITCHEN_UNITS);
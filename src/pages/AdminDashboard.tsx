@@ -4,11 +4,15 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { LogOut, ClipboardList, BookOpen, Upload, Settings } from "lucide-react";
+import { LogOut, ClipboardList, BookOpen, Upload, Settings, CalendarDays, Layers, Printer, Users } from "lucide-react";
 import ParManagement from "@/components/admin/ParManagement";
+import ParOverrideCalendar from "@/components/admin/ParOverrideCalendar";
 import RecipeManagement from "@/components/admin/RecipeManagement";
 import SalesUpload from "@/components/admin/SalesUpload";
 import MenuItemManagement from "@/components/admin/MenuItemManagement";
+import ComponentManagement from "@/components/admin/ComponentManagement";
+import PrepListExport from "@/components/admin/PrepListExport";
+import StaffManagement from "@/components/admin/StaffManagement";
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
@@ -94,12 +98,17 @@ const AdminDashboard = () => {
       {/* Main Content */}
       <main className="container mx-auto p-6">
         <Tabs defaultValue="pars" className="w-full">
-          <TabsList className="mb-6 grid w-full grid-cols-4 lg:w-auto lg:inline-flex">
+          <TabsList className="mb-6 grid w-full grid-cols-8 lg:w-auto lg:inline-flex">
             <TabsTrigger value="pars" className="flex items-center gap-2">
               <ClipboardList className="h-4 w-4" />
               <span className="hidden sm:inline">Par Levels</span>
               <span className="sm:hidden">Pars</span>
             </TabsTrigger>
+            <TabsTrigger value="events" className="flex items-center gap-2">
+              <CalendarDays className="h-4 w-4" />
+              <span className="hidden sm:inline">Event Pars</span>
+              <span className="sm:hidden">Events</span>
+            </TabsTrigger>
             <TabsTrigger value="recipes" className="flex items-center gap-2">
               <BookOpen className="h-4 w-4" />
               <span className="hidden sm:inline">Recipes</span>
@@ -115,12 +124,31 @@ const AdminDashboard = () => {
               <span className="hidden sm:inline">Menu Items</span>
               <span className="sm:hidden">Items</span>
             </TabsTrigger>
+            <TabsTrigger value="components" className="flex items-center gap-2">
+              <Layers className="h-4 w-4" />
+              <span className="hidden sm:inline">Components</span>
+              <span className="sm:hidden">Parts</span>
+            </TabsTrigger>
+            <TabsTrigger value="print" className="flex items-center gap-2">
+              <Printer className="h-4 w-4" />
+              <span className="hidden sm:inline">Prep Lists</span>
+              <span className="sm:hidden">Print</span>
+            </TabsTrigger>
+            <TabsTrigger value="staff" className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              <span className="hidden sm:inline">Staff</span>
+              <span className="sm:hidden">Staff</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="pars">
             <ParManagement />
           </TabsContent>
 
+          <TabsContent value="events">
+            <ParOverrideCalendar />
+          </TabsContent>
+
           <TabsContent value="recipes">
             <RecipeManagement />
           </TabsContent>
@@ -132,6 +160,18 @@ const AdminDashboard = () => {
           <TabsContent value="items">
             <MenuItemManagement />
           </TabsContent>
+
+          <TabsContent value="components">
+            <ComponentManagement />
+          </TabsContent>
+
+          <TabsContent value="print">
+            <PrepListExport />
+          </TabsContent>
+
+          <TabsContent value="staff">
+            <StaffManagement />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
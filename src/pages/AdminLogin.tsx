@@ -49,7 +49,7 @@ const AdminLogin = () => {
         if (roleError) {
           console.error("Error assigning role:", roleError);
           await supabase.auth.signOut();
-          throw new Error("Failed to assign admin role. Please try again.");
+          throw new Error("Account created, but admin access has to be granted by an existing admin.");
         }
 
         toast({
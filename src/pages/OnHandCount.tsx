@@ -0,0 +1,335 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatKitchenDate, getKitchenToday } from "@/lib/kitchenDate";
+import StaffPinPad from "@/components/prep/StaffPinPad";
+import type { StaffOption } from "@/components/prep/PrepListItem";
+import type { Database } from "@/integrations/supabase/types";
+
+type KitchenStation = Database["public"]["Enums"]["kitchen_station"];
+
+interface MenuItem {
+  id: string;
+  name: string;
+  station: KitchenStation;
+  unit: string;
+}
+
+const STATIONS: { value: KitchenStation; label: string }[] = [
+  { value: "grill", label: "Grill" },
+  { value: "saute", label: "Sauté" },
+  { value: "fry", label: "Fry" },
+  { value: "salad", label: "Salad" },
+  { value: "line", label: "Line" },
+];
+
+const OnHandCount = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [counts, setCounts] = useState<Map<string, number>>(new Map());
+  const [changes, setChanges] = useState<Map<string, number>>(new Map());
+  const [activeStation, setActiveStation] = useState<KitchenStation>("grill");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [cookId, setCookId] = useState<string | null>(null); // Cook signed in with their PIN
+  const [isSessionChecked, setIsSessionChecked] = useState(false);
+
+  // Closing counts are recorded against the service day they were taken on
+  const today = getKitchenToday();
+
+  useEffect(() => {
+    fetchData();
+    fetchStaff();
+    restoreStaffSession();
+  }, []);
+
+  const fetchStaff = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("staff_members")
+        .select("id, name, initials, is_active")
+        .order("name");
+
+      if (error) throw error;
+
+      setStaff(data || []);
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+    }
+  };
+
+  // Counts are saved by a signed-in cook; pick up one still signed in on this device
+  const restoreStaffSession = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.rpc("current_staff_member");
+      if (error) throw error;
+
+      setCookId(data);
+    } catch (error) {
+      console.error("Error restoring staff session:", error);
+    } finally {
+      setIsSessionChecked(true);
+    }
+  };
+
+  const fetchData = async () => {
+    try {
+      const [itemsRes, countsRes] = await Promise.all([
+        supabase
+          .from("menu_items")
+          .select("id, name, station, unit")
+          .eq("is_active", true)
+          .order("name"),
+        supabase
+          .from("on_hand_counts")
+          .select("menu_item_id, quantity")
+          .eq("count_date", today),
+      ]);
+
+      if (itemsRes.error) throw itemsRes.error;
+      if (countsRes.error) throw countsRes.error;
+
+      setMenuItems(itemsRes.data || []);
+
+      const countMap = new Map<string, number>();
+      (countsRes.data || []).forEach((c) => {
+        countMap.set(c.menu_item_id, c.quantity);
+      });
+      setCounts(countMap);
+      setChanges(new Map());
+    } catch (error) {
+      console.error("Error fetching counts:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load on-hand counts",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCountChange = (menuItemId: string, value: string) => {
+    // Clearing the field leaves the item uncounted rather than counting 0
+    const trimmed = value.trim();
+    if (trimmed !== "" && !/^\d+$/.test(trimmed)) return;
+
+    setChanges((prev) => {
+      const next = new Map(prev);
+      if (trimmed === "") next.delete(menuItemId);
+      else next.set(menuItemId, Number(trimmed));
+      return next;
+    });
+  };
+
+  const getCountValue = (menuItemId: string): string => {
+    if (changes.has(menuItemId)) {
+      return changes.get(menuItemId)!.toString();
+    }
+    return counts.has(menuItemId) ? counts.get(menuItemId)!.toString() : "";
+  };
+
+  const getStationChanges = (station: KitchenStation) =>
+    Array.from(changes.entries()).filter(([menuItemId]) =>
+      menuItems.some((item) => item.id === menuItemId && item.station === station)
+    );
+
+  const getCountedTotal = (station: KitchenStation) => {
+    const stationItems = menuItems.filter((item) => item.station === station);
+    return {
+      total: stationItems.length,
+      counted: stationItems.filter((item) => counts.has(item.id) || changes.has(item.id)).length,
+    };
+  };
+
+  const handleSave = async () => {
+    const stationChanges = getStationChanges(activeStation);
+    if (stationChanges.length === 0) {
+      toast({ title: "No changes", description: "Nothing to save" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const upserts = stationChanges.map(([menu_item_id, quantity]) => ({
+        menu_item_id,
+        count_date: today,
+        quantity,
+      }));
+
+      const { error } = await supabase.from("on_hand_counts").upsert(upserts, {
+        onConflict: "menu_item_id,count_date",
+      });
+
+      if (error) throw error;
+
+      setCounts((prev) => {
+        const next = new Map(prev);
+        stationChanges.forEach(([id, qty]) => next.set(id, qty));
+        return next;
+      });
+      setChanges((prev) => {
+        const next = new Map(prev);
+        stationChanges.forEach(([id]) => next.delete(id));
+        return next;
+      });
+
+      toast({
+        title: "Counts saved",
+        description: `Saved ${upserts.length} counts for ${STATIONS.find((s) => s.value === activeStation)?.label}`,
+      });
+    } catch (error) {
+      console.error("Error saving counts:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save on-hand counts",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !isSessionChecked) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading items...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!cookId) {
+    return <StaffPinPad staff={staff} onSignedIn={setCookId} onExit={() => navigate("/prep")} />;
+  }
+
+  const pendingCount = getStationChanges(activeStation).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card px-4 py-3">
+        <div className="flex items-center justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate("/prep")}
+            className="text-muted-foreground"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Prep
+          </Button>
+          <div className="text-center">
+            <h1 className="font-display text-xl font-bold text-foreground">
+              Closing Count
+            </h1>
+            <p className="text-xs text-muted-foreground">
+              {formatKitchenDate(today)}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={isSaving || pendingCount === 0}
+          >
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save
+          </Button>
+        </div>
+      </header>
+
+      {/* Station Tabs */}
+      <Tabs
+        value={activeStation}
+        onValueChange={(v) => setActiveStation(v as KitchenStation)}
+        className="w-full"
+      >
+        <div className="border-b border-border bg-card/50 px-2">
+          <TabsList className="h-14 w-full justify-start gap-1 bg-transparent p-0">
+            {STATIONS.map((station) => {
+              const totals = getCountedTotal(station.value);
+              return (
+                <TabsTrigger
+                  key={station.value}
+                  value={station.value}
+                  className="relative flex-1 flex-col gap-0.5 rounded-none border-b-2 border-transparent px-2 py-2 data-[state=active]:border-primary data-[state=active]:bg-transparent"
+                >
+                  <span className="text-sm font-medium">{station.label}</span>
+                  {totals.total > 0 && (
+                    <span className="text-xs text-muted-foreground">
+                      {totals.counted}/{totals.total}
+                    </span>
+                  )}
+                </TabsTrigger>
+              );
+            })}
+          </TabsList>
+        </div>
+
+        {/* Count Items */}
+        <div className="p-4">
+          {STATIONS.map((station) => {
+            const stationItems = menuItems.filter((item) => item.station === station.value);
+            return (
+              <TabsContent
+                key={station.value}
+                value={station.value}
+                className="mt-0"
+              >
+                {stationItems.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center py-12 text-center">
+                    <p className="text-lg text-muted-foreground">
+                      No items for {station.label}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {stationItems.map((item) => (
+                      <Card
+                        key={item.id}
+                        className="flex items-center gap-4 border-2 p-4"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <h3 className="text-lg font-semibold truncate">{item.name}</h3>
+                          <p className="text-sm text-muted-foreground">{item.unit}</p>
+                        </div>
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          min="0"
+                          placeholder="—"
+                          value={getCountValue(item.id)}
+                          onChange={(e) => handleCountChange(item.id, e.target.value)}
+                          className="h-14 w-24 text-center text-2xl font-bold"
+                        />
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+            );
+          })}
+        </div>
+      </Tabs>
+    </div>
+  );
+};
+
+export default OnHandCount;
@@ -2,30 +2,70 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, ClipboardCheck, Lock, Printer, UserRound } from "lucide-react";
 import PrepListItem from "@/components/prep/PrepListItem";
 import RecipeModal from "@/components/prep/RecipeModal";
+import StockAlerts, { type FlaggedLot } from "@/components/prep/StockAlerts";
+import LabelPrintDialog, { type LabelItem } from "@/components/prep/LabelPrintDialog";
+import StaffPinPad from "@/components/prep/StaffPinPad";
+import ProducedQuantityDialog, { type ProducedTask } from "@/components/prep/ProducedQuantityDialog";
 import { useToast } from "@/hooks/use-toast";
+import { formatKitchenDate, getKitchenToday } from "@/lib/kitchenDate";
 import type { Database } from "@/integrations/supabase/types";
+import type { SubRecipeNeed } from "@/lib/recipeScaling";
+import type { SourceItem, StaffOption } from "@/components/prep/PrepListItem";
+import { getLotUseBy, getStockFlag, getUseByDate, parseShelfLifeDays } from "@/lib/shelfLife";
+import { formatQuantity } from "@/lib/units";
+import { printPrepSheet, type PrepSheetRow } from "@/lib/prepSheet";
 
 type KitchenStation = Database["public"]["Enums"]["kitchen_station"];
 type PrepStatus = Database["public"]["Enums"]["prep_status"];
+type CalculationMethod = Database["public"]["Enums"]["prep_calculation_method"];
+
+interface PrepTarget {
+  id: string;
+  name: string;
+  station: KitchenStation;
+  unit: string;
+  recipe_id: string | null;
+  recipes: {
+    name: string;
+    shelf_life: string | null;
+    allergens: string[];
+    page_reference: string | null;
+  } | null;
+}
 
 interface PrepItem {
   id: string;
-  menu_item_id: string;
+  menu_item_id: string | null;
+  component_id: string | null;
   quantity_needed: number;
+  quantity_produced: number | null;
+  raw_quantity: number | null;
+  batch_count: number | null;
+  batch_container: string | null;
+  container_quantity: number | null;
+  expires_on: string | null;
   status: PrepStatus;
-  menu_item: {
-    id: string;
-    name: string;
-    station: KitchenStation;
-    unit: string;
-    recipe_id: string | null;
-  };
+  is_paused: boolean;
+  active_seconds: number; // Kept by the database's task timer
+  calculation_method: CalculationMethod;
+  par_quantity: number | null;
+  on_hand_quantity: number | null;
+  sub_recipe_batches: SubRecipeNeed[] | null;
+  source_items: SourceItem[] | null; // Dishes driving a component task
+  target: PrepTarget | null; // The dish or component being prepped
+  assigned_to: string | null;
+  completed_by: string | null;
+  completed_at: string | null;
 }
 
+type StationLot = FlaggedLot & { station: KitchenStation };
+
 const STATIONS: { value: KitchenStation; label: string }[] = [
   { value: "grill", label: "Grill" },
   { value: "saute", label: "Sauté" },
@@ -34,19 +74,37 @@ const STATIONS: { value: KitchenStation; label: string }[] = [
   { value: "line", label: "Line" },
 ];
 
+// The shared tablet locks back to the PIN pad after this long without a touch
+const AUTO_LOCK_MINUTES = 5;
+
 const PrepDashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [prepItems, setPrepItems] = useState<PrepItem[]>([]);
+  const [flaggedLots, setFlaggedLots] = useState<StationLot[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedRecipe, setSelectedRecipe] = useState<{ recipeId: string | null; itemName: string } | null>(null);
+  const [selectedRecipe, setSelectedRecipe] = useState<{
+    recipeId: string | null;
+    itemName: string;
+    quantityNeeded: number;
+    unit: string;
+  } | null>(null);
   const [activeStation, setActiveStation] = useState<KitchenStation>("grill");
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [cookId, setCookId] = useState<string | null>(null); // Cook signed in with their PIN
+  const [isSessionChecked, setIsSessionChecked] = useState(false);
+  const [myTasksOnly, setMyTasksOnly] = useState(false);
+  const [producedTask, setProducedTask] = useState<ProducedTask | null>(null);
+  const [labelJob, setLabelJob] = useState<{ title: string; items: LabelItem[] } | null>(null);
 
-  // Get today's date in YYYY-MM-DD format
-  const today = new Date().toISOString().split("T")[0];
+  // Get today's date in the kitchen's timezone (YYYY-MM-DD)
+  const today = getKitchenToday();
 
   useEffect(() => {
     fetchPrepList();
+    fetchStock();
+    fetchStaff();
+    restoreStaffSession();
 
     // Set up real-time subscription
     const channel = supabase
@@ -62,6 +120,17 @@ const PrepDashboard = () => {
           fetchPrepList();
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "prepped_product",
+        },
+        () => {
+          fetchStock();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -93,13 +162,49 @@ const PrepDashboard = () => {
           id,
           menu_item_id,
           quantity_needed,
+          quantity_produced,
+          raw_quantity,
+          batch_count,
+          batch_container,
+          container_quantity,
+          expires_on,
           status,
+          is_paused,
+          active_seconds,
+          calculation_method,
+          par_quantity,
+          on_hand_quantity,
+          sub_recipe_batches,
+          component_id,
+          source_items,
+          assigned_to,
+          completed_by,
+          completed_at,
           menu_items (
             id,
             name,
             station,
             unit,
-            recipe_id
+            recipe_id,
+            recipes (
+              name,
+              shelf_life,
+              allergens,
+              page_reference
+            )
+          ),
+          prep_components (
+            id,
+            name,
+            station,
+            unit,
+            recipe_id,
+            recipes (
+              name,
+              shelf_life,
+              allergens,
+              page_reference
+            )
           )
         `)
         .eq("prep_list_id", prepList.id)
@@ -111,9 +216,26 @@ const PrepDashboard = () => {
       const transformedData: PrepItem[] = (data || []).map((item) => ({
         id: item.id,
         menu_item_id: item.menu_item_id,
+        component_id: item.component_id,
         quantity_needed: item.quantity_needed,
+        quantity_produced: item.quantity_produced,
+        raw_quantity: item.raw_quantity,
+        batch_count: item.batch_count,
+        batch_container: item.batch_container,
+        container_quantity: item.container_quantity,
+        expires_on: item.expires_on,
         status: item.status,
-        menu_item: item.menu_items as PrepItem["menu_item"],
+        is_paused: item.is_paused,
+        active_seconds: item.active_seconds,
+        calculation_method: item.calculation_method,
+        par_quantity: item.par_quantity,
+        on_hand_quantity: item.on_hand_quantity,
+        sub_recipe_batches: item.sub_recipe_batches as unknown as SubRecipeNeed[] | null,
+        source_items: item.source_items as unknown as SourceItem[] | null,
+        target: (item.menu_items || item.prep_components) as PrepTarget | null,
+        assigned_to: item.assigned_to,
+        completed_by: item.completed_by,
+        completed_at: item.completed_at,
       }));
 
       setPrepItems(transformedData);
@@ -129,11 +251,159 @@ const PrepDashboard = () => {
     }
   };
 
+  // The whole roster, so tasks finished by cooks who have since left still show a name
+  const fetchStaff = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("staff_members")
+        .select("id, name, initials, is_active")
+        .order("name");
+
+      if (error) throw error;
+
+      setStaff(data || []);
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+    }
+  };
+
+  // Pick up a cook still signed in on this device, e.g. after a reload
+  const restoreStaffSession = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase.rpc("current_staff_member");
+      if (error) throw error;
+
+      setCookId(data);
+    } catch (error) {
+      console.error("Error restoring staff session:", error);
+    } finally {
+      setIsSessionChecked(true);
+    }
+  };
+
+  const lock = async () => {
+    setCookId(null);
+    setMyTasksOnly(false);
+    setProducedTask(null);
+    setLabelJob(null);
+    const { error } = await supabase.rpc("staff_sign_out");
+    if (error) console.error("Error signing out:", error);
+  };
+
+  // Lock after a stretch with no touches or key presses
+  useEffect(() => {
+    if (!cookId) return;
+
+    let timer = setTimeout(lock, AUTO_LOCK_MINUTES * 60 * 1000);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, AUTO_LOCK_MINUTES * 60 * 1000);
+    };
+    const events = ["pointerdown", "keydown", "scroll"];
+    events.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+
+    return () => {
+      clearTimeout(timer);
+      events.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [cookId]);
+
+  // Prepped product that has to be used today or thrown out
+  const fetchStock = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("prepped_product")
+        .select(`
+          id,
+          prepped_on,
+          expires_on,
+          quantity_remaining,
+          menu_items (
+            name,
+            station,
+            unit
+          ),
+          prep_components (
+            name,
+            station,
+            unit
+          )
+        `)
+        .is("used_at", null)
+        .is("discarded_at", null)
+        .gt("quantity_remaining", 0)
+        .lte("prepped_on", today);
+
+      if (error) throw error;
+
+      const lots: StationLot[] = (data || []).flatMap((row) => {
+        const target = (row.menu_items || row.prep_components) as Omit<PrepTarget, "id" | "recipe_id"> | null;
+        const lot = { ...row, quantity_remaining: Number(row.quantity_remaining) };
+        const flag = getStockFlag(lot, today);
+        if (!target || !flag) return [];
+        return [{
+          id: row.id,
+          name: target.name,
+          station: target.station,
+          unit: target.unit,
+          quantity_remaining: lot.quantity_remaining,
+          prepped_on: row.prepped_on,
+          expires_on: getLotUseBy(lot),
+          flag,
+        }];
+      });
+
+      setFlaggedLots(lots);
+    } catch (error) {
+      console.error("Error fetching prepped stock:", error);
+    }
+  };
+
+  const resolveLot = async (lotId: string, field: "used_at" | "discarded_at") => {
+    try {
+      const { error } = await supabase
+        .from("prepped_product")
+        .update({ [field]: new Date().toISOString() })
+        .eq("id", lotId);
+
+      if (error) throw error;
+
+      setFlaggedLots((prev) => prev.filter((lot) => lot.id !== lotId));
+    } catch (error) {
+      console.error("Error updating prepped stock:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update stock",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Starting a task claims it for the signed-in cook and finishing it records
+  // who finished it. The database attributes these too; setting them here
+  // updates the list straight away. Reopening starts the task over, so what
+  // was logged as made goes too. Any status change takes a task off pause.
+  const getStatusUpdate = (newStatus: PrepStatus) => {
+    if (newStatus === "open") {
+      return { status: newStatus, is_paused: false, quantity_produced: null, completed_by: null, completed_at: null };
+    }
+    if (newStatus === "in_progress") {
+      return cookId
+        ? { status: newStatus, is_paused: false, assigned_to: cookId, completed_by: null, completed_at: null }
+        : { status: newStatus, is_paused: false, completed_by: null, completed_at: null };
+    }
+    return { status: newStatus, is_paused: false, completed_by: cookId, completed_at: new Date().toISOString() };
+  };
+
   const updateStatus = async (itemId: string, newStatus: PrepStatus) => {
+    const update = getStatusUpdate(newStatus);
     try {
       const { error } = await supabase
         .from("prep_list_items")
-        .update({ status: newStatus })
+        .update(update)
         .eq("id", itemId);
 
       if (error) throw error;
@@ -141,7 +411,7 @@ const PrepDashboard = () => {
       // Optimistic update
       setPrepItems((prev) =>
         prev.map((item) =>
-          item.id === itemId ? { ...item, status: newStatus } : item
+          item.id === itemId ? { ...item, ...update } : item
         )
       );
     } catch (error) {
@@ -154,9 +424,126 @@ const PrepDashboard = () => {
     }
   };
 
+  const recordProduced = async (itemId: string, quantity: number, newStatus: PrepStatus) => {
+    setProducedTask(null);
+    const update = { ...getStatusUpdate(newStatus), quantity_produced: quantity };
+    try {
+      const { error } = await supabase
+        .from("prep_list_items")
+        .update(update)
+        .eq("id", itemId);
+
+      if (error) throw error;
+
+      setPrepItems((prev) =>
+        prev.map((item) => (item.id === itemId ? { ...item, ...update } : item))
+      );
+    } catch (error) {
+      console.error("Error recording quantity made:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save quantity made",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Pausing stops the task timer without giving the task up
+  const togglePause = async (itemId: string, isPaused: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("prep_list_items")
+        .update({ is_paused: isPaused })
+        .eq("id", itemId);
+
+      if (error) throw error;
+
+      setPrepItems((prev) =>
+        prev.map((item) => (item.id === itemId ? { ...item, is_paused: isPaused } : item))
+      );
+    } catch (error) {
+      console.error("Error pausing task:", error);
+      toast({
+        title: "Error",
+        description: isPaused ? "Failed to pause task" : "Failed to resume task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const assignTask = async (itemId: string, staffId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from("prep_list_items")
+        .update({ assigned_to: staffId })
+        .eq("id", itemId);
+
+      if (error) throw error;
+
+      setPrepItems((prev) =>
+        prev.map((item) => (item.id === itemId ? { ...item, assigned_to: staffId } : item))
+      );
+    } catch (error) {
+      console.error("Error assigning task:", error);
+      toast({
+        title: "Error",
+        description: "Failed to assign task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toLabelItem = (item: PrepItem): LabelItem => ({
+    id: item.id,
+    name: item.target?.name || "Unknown",
+    // Finished items carry who finished them and when; anything else is
+    // labelled as prepped now by the cook signed in
+    preppedAt: (item.status === "completed" && item.completed_at) || new Date().toISOString(),
+    preppedBy: staff.find((member) => member.id === (item.completed_by ?? cookId)) ?? null,
+    useBy: item.expires_on ?? getUseByDate(today, parseShelfLifeDays(item.target?.recipes?.shelf_life)),
+    allergens: item.target?.recipes?.allergens || [],
+    quantity: `${formatQuantity(item.quantity_produced ?? item.quantity_needed)} ${item.target?.unit || "portions"}`,
+  });
+
+  const printStationLabels = (station: { value: KitchenStation; label: string }) => {
+    const completed = prepItems.filter(
+      (item) => item.target?.station === station.value && item.status === "completed"
+    );
+    setLabelJob({ title: `${station.label} Labels`, items: completed.map(toLabelItem) });
+  };
+
+  const printPrepList = () => {
+    const rows: PrepSheetRow[] = prepItems.flatMap((item) =>
+      item.target
+        ? [
+            {
+              station: item.target.station,
+              name: item.target.name,
+              quantity: item.quantity_needed,
+              quantityProduced: item.quantity_produced,
+              unit: item.target.unit,
+              batchCount: item.batch_count,
+              batchContainer: item.batch_container,
+              containerQuantity: item.container_quantity,
+              recipeName: item.target.recipes?.name ?? null,
+              pageReference: item.target.recipes?.page_reference ?? null,
+              completed: item.status === "completed",
+            },
+          ]
+        : []
+    );
+    if (!printPrepSheet(today, rows, STATIONS)) {
+      toast({
+        title: "Couldn't open prep list",
+        description: "Allow pop-ups for this site to print",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusCounts = (station: KitchenStation) => {
     const stationItems = prepItems.filter(
-      (item) => item.menu_item?.station === station
+      (item) => item.target?.station === station
     );
     return {
       total: stationItems.length,
@@ -169,7 +556,9 @@ const PrepDashboard = () => {
   };
 
   const filteredItems = prepItems.filter(
-    (item) => item.menu_item?.station === activeStation
+    (item) =>
+      item.target?.station === activeStation &&
+      (!myTasksOnly || item.assigned_to === cookId)
   );
 
   // Sort: open first, then in_progress, then completed
@@ -178,7 +567,7 @@ const PrepDashboard = () => {
     return order[a.status] - order[b.status];
   });
 
-  if (isLoading) {
+  if (isLoading || !isSessionChecked) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
         <div className="text-center">
@@ -189,6 +578,10 @@ const PrepDashboard = () => {
     );
   }
 
+  if (!cookId) {
+    return <StaffPinPad staff={staff} onSignedIn={setCookId} onExit={() => navigate("/")} />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -208,17 +601,50 @@ const PrepDashboard = () => {
               Prep List
             </h1>
             <p className="text-xs text-muted-foreground">
-              {new Date().toLocaleDateString("en-US", {
-                weekday: "long",
-                month: "short",
-                day: "numeric",
-              })}
+              {formatKitchenDate(today)}
             </p>
           </div>
-          <div className="w-16" /> {/* Spacer for centering */}
+          <div className="flex items-center">
+            {prepItems.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={printPrepList}
+                className="text-muted-foreground"
+              >
+                <Printer className="mr-2 h-4 w-4" />
+                Print
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/prep/count")}
+              className="text-muted-foreground"
+            >
+              <ClipboardCheck className="mr-2 h-4 w-4" />
+              Count
+            </Button>
+          </div>
         </div>
       </header>
 
+      {/* Signed-in cook */}
+      <div className="flex items-center gap-4 border-b border-border bg-card px-4 py-2">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <UserRound className="h-4 w-4 text-muted-foreground" />
+          {staff.find((member) => member.id === cookId)?.name || "Signed in"}
+        </span>
+        <div className="flex items-center gap-2">
+          <Switch id="my-tasks" checked={myTasksOnly} onCheckedChange={setMyTasksOnly} />
+          <Label htmlFor="my-tasks">My tasks</Label>
+        </div>
+        <Button variant="ghost" size="sm" onClick={lock} className="ml-auto text-muted-foreground">
+          <Lock className="mr-2 h-4 w-4" />
+          Lock
+        </Button>
+      </div>
+
       {/* Station Tabs */}
       <Tabs
         value={activeStation}
@@ -255,6 +681,19 @@ const PrepDashboard = () => {
               value={station.value}
               className="mt-0"
             >
+              <StockAlerts
+                lots={flaggedLots.filter((lot) => lot.station === station.value)}
+                onUsed={(id) => resolveLot(id, "used_at")}
+                onDiscarded={(id) => resolveLot(id, "discarded_at")}
+              />
+              {getStatusCounts(station.value).completed > 0 && (
+                <div className="mb-3 flex justify-end">
+                  <Button variant="outline" size="sm" onClick={() => printStationLabels(station)}>
+                    <Printer className="mr-2 h-4 w-4" />
+                    Print {station.label} Labels
+                  </Button>
+                </div>
+              )}
               {sortedItems.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-12 text-center">
                   <p className="text-lg text-muted-foreground">
@@ -270,17 +709,49 @@ const PrepDashboard = () => {
                     <PrepListItem
                       key={item.id}
                       id={item.id}
-                      name={item.menu_item?.name || "Unknown"}
+                      name={item.target?.name || "Unknown"}
                       quantity={item.quantity_needed}
-                      unit={item.menu_item?.unit || "portions"}
+                      quantityProduced={item.quantity_produced}
+                      rawQuantity={item.raw_quantity}
+                      batchCount={item.batch_count}
+                      batchContainer={item.batch_container}
+                      containerQuantity={item.container_quantity}
+                      expiresOn={item.expires_on}
+                      unit={item.target?.unit || "portions"}
                       status={item.status}
+                      isPaused={item.is_paused}
+                      activeSeconds={item.active_seconds}
+                      calculationMethod={item.calculation_method}
+                      parQuantity={item.par_quantity}
+                      onHandQuantity={item.on_hand_quantity}
+                      subRecipes={item.sub_recipe_batches}
+                      sourceItems={item.source_items}
+                      assignedTo={item.assigned_to}
+                      completedBy={item.completed_by}
+                      staff={staff}
+                      onAssign={(staffId) => assignTask(item.id, staffId)}
                       onStatusChange={(newStatus) =>
                         updateStatus(item.id, newStatus)
                       }
+                      onTogglePause={() => togglePause(item.id, !item.is_paused)}
+                      onRecordProduced={() =>
+                        setProducedTask({
+                          id: item.id,
+                          name: item.target?.name || "Unknown",
+                          quantityNeeded: item.quantity_needed,
+                          quantityProduced: item.quantity_produced,
+                          unit: item.target?.unit || "portions",
+                        })
+                      }
+                      onPrintLabel={() =>
+                        setLabelJob({ title: "Print Label", items: [toLabelItem(item)] })
+                      }
                       onViewRecipe={() =>
                         setSelectedRecipe({
-                          recipeId: item.menu_item?.recipe_id || null,
-                          itemName: item.menu_item?.name || "Unknown",
+                          recipeId: item.target?.recipe_id || null,
+                          itemName: item.target?.name || "Unknown",
+                          quantityNeeded: item.quantity_needed,
+                          unit: item.target?.unit || "portions",
                         })
                       }
                     />
@@ -292,10 +763,26 @@ const PrepDashboard = () => {
         </div>
       </Tabs>
 
+      {/* Quantity Made */}
+      <ProducedQuantityDialog
+        task={producedTask}
+        onSave={(quantity, newStatus) => producedTask && recordProduced(producedTask.id, quantity, newStatus)}
+        onClose={() => setProducedTask(null)}
+      />
+
+      {/* Label Printing */}
+      <LabelPrintDialog
+        title={labelJob?.title || "Print Labels"}
+        items={labelJob?.items || []}
+        onClose={() => setLabelJob(null)}
+      />
+
       {/* Recipe Modal */}
       <RecipeModal
         recipeId={selectedRecipe?.recipeId || null}
         itemName={selectedRecipe?.itemName}
+        quantityNeeded={selectedRecipe?.quantityNeeded}
+        unit={selectedRecipe?.unit}
         onClose={() => setSelectedRecipe(null)}
       />
     </div>
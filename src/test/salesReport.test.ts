@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { parseSalesReportCsv, parseSalesReportRows } from "@/lib/salesReport";
+import { applyIgnoreRules, type IgnoreRule } from "@/lib/ignoreRules";
+import { splitModifierSales, type SalesModifier } from "@/lib/modifiers";
+import itemSalesReport from "./fixtures/item-sales-report.csv?raw";
+import checkSummary from "./fixtures/check-summary.csv?raw";
+
+const names = (text: string) => parseSalesReportCsv(text)?.map((sale) => sale.original_name);
+
+describe("parseSalesReportCsv", () => {
+  describe("header", () => {
+    it("skips the report title and date rows above the header", () => {
+      expect(names(itemSalesReport)?.[0]).toBe("8oz Filet");
+    });
+
+    it("returns null when there's no Item / Units Sold header", () => {
+      expect(parseSalesReportCsv(checkSummary)).toBeNull();
+    });
+
+    it("finds the columns wherever they are in the header row", () => {
+      const rows = [
+        ["Net Sales", "Units Sold", "Item"],
+        ["$40.00", "3", "Wedge Salad"],
+      ];
+      expect(parseSalesReportRows(rows)).toEqual([{ name: "Wedge Salad", quantity: 3, original_name: "Wedge Salad" }]);
+    });
+  });
+
+  describe("category rows", () => {
+    it("leaves out category headings, which have no units sold", () => {
+      expect(names(itemSalesReport)).not.toEqual(expect.arrayContaining(["Entrees", "Sides", "Modifiers"]));
+    });
+  });
+
+  describe("total rows", () => {
+    it("leaves out category and report totals", () => {
+      const parsed = names(itemSalesReport) || [];
+      expect(parsed.some((name) => name.toLowerCase().includes("totals"))).toBe(false);
+    });
+  });
+
+  describe("item rows", () => {
+    it("reads units sold with thousands separators and drops items that didn't sell", () => {
+      const sales = parseSalesReportCsv(itemSalesReport) || [];
+      expect(sales.find((sale) => sale.original_name === "French Fries")?.quantity).toBe(1204);
+      expect(sales.find((sale) => sale.original_name === "Side Salad")).toBeUndefined();
+    });
+
+    it("uses the menu item's name when it matches regardless of case", () => {
+      const sales = parseSalesReportCsv(itemSalesReport, ["French fries"]) || [];
+      expect(sales.find((sale) => sale.original_name === "French Fries")?.name).toBe("French fries");
+    });
+
+    it("keeps item names with commas in them whole", () => {
+      expect(names(itemSalesReport)).toContain("Chicken Parm, Half");
+    });
+  });
+
+  describe("modifier rows", () => {
+    const modifiers: SalesModifier[] = [
+      { id: "m1", name: "ADD SALMON", menu_item_id: null, component_id: "c1", quantity_per_unit: 1 },
+      { id: "m2", name: "add bacon", menu_item_id: null, component_id: "c2", quantity_per_unit: 0.5 },
+    ];
+    const rules: IgnoreRule[] = [{ id: "r1", pattern: "NO ", match_type: "prefix" }];
+
+    it("keeps modifier lines for the modifier mappings and ignore rules to sort out", () => {
+      expect(names(itemSalesReport)).toEqual(expect.arrayContaining(["ADD SALMON", "Add Bacon", "NO ONIONS"]));
+    });
+
+    it("maps modifier lines regardless of case and spacing, and ignores instruction lines", () => {
+      const sales = parseSalesReportCsv(itemSalesReport) || [];
+      const split = splitModifierSales(sales, modifiers);
+      const { items, ignored } = applyIgnoreRules(split.items, rules);
+
+      expect(split.modifiers.map((sale) => [sale.original_name, sale.modifier.id])).toEqual([
+        ["ADD SALMON", "m1"],
+        ["Add Bacon", "m2"],
+      ]);
+      expect(ignored.map((sale) => sale.original_name)).toEqual(["NO ONIONS"]);
+      expect(items.map((sale) => sale.original_name)).toEqual([
+        "8oz Filet",
+        "Grilled Salmon",
+        "Chicken Parm, Half",
+        "French Fries",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Batch rounding for the prep list. Needs are rounded up to the batches the
+ * kitchen actually makes, and the container amount those batches fill is
+ * worked out so cooks know what to grab ("2 batches (≈ 3 qt)").
+ */
+
+import { convert, DEFAULT_UNITS, type UnitDef } from "./units.ts";
+
+export interface BatchSettings {
+  min_batch: number | null; // Never prep less than this once anything is needed
+  batch_increment: number | null; // Prep in whole multiples of this
+  batch_container: string | null; // What a batch goes in, e.g. "qt" or "1/6 pan"
+  batch_container_quantity: number | null; // How much of the container one batch fills
+}
+
+export interface BatchedQuantity {
+  raw_quantity: number;
+  quantity: number; // Rounded up to whole batches
+  batch_count: number | null; // null without a batch increment
+  batch_container: string | null;
+  container_quantity: number | null; // Total container amount for the rounded quantity
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Round a raw need up to whole batches. Nothing needed stays at zero; settings
+ * that aren't filled in leave the quantity as it is.
+ */
+export const roundToBatches = (
+  rawQuantity: number,
+  unit: string,
+  settings: BatchSettings,
+  units: UnitDef[] = DEFAULT_UNITS
+): BatchedQuantity => {
+  const raw = round2(Math.max(0, rawQuantity));
+  const increment = settings.batch_increment && settings.batch_increment > 0 ? settings.batch_increment : null;
+  const container = settings.batch_container?.trim() || null;
+
+  if (raw === 0) {
+    return { raw_quantity: 0, quantity: 0, batch_count: null, batch_container: container, container_quantity: null };
+  }
+
+  let quantity = Math.max(raw, settings.min_batch ?? 0);
+  // Tolerate float noise so 3 × 0.1 doesn't round up to a fourth batch
+  const batchCount = increment ? Math.ceil(quantity / increment - 1e-9) : null;
+  if (increment && batchCount !== null) quantity = batchCount * increment;
+  quantity = round2(quantity);
+
+  let containerQuantity: number | null = null;
+  if (container) {
+    containerQuantity =
+      batchCount !== null && settings.batch_container_quantity
+        ? batchCount * settings.batch_container_quantity
+        : convert(quantity, unit, container, units);
+  }
+
+  return {
+    raw_quantity: raw,
+    quantity,
+    batch_count: batchCount,
+    batch_container: container,
+    container_quantity: containerQuantity === null ? null : round2(containerQuantity),
+  };
+};
@@ -0,0 +1,114 @@
+/**
+ * Prep components: the bacon, sliced tomato and chicken breasts that go into
+ * finished dishes. Dish needs are multiplied out by each dish's per-portion
+ * usage and totalled so a component shared by several dishes is prepped once.
+ * POS modifiers mapped to a component (e.g. "ADD SALMON") add to its need too.
+ */
+
+export interface PrepComponent {
+  id: string;
+  name: string;
+  station: string;
+  unit: string;
+  recipe_id: string | null;
+}
+
+export interface ComponentUsage {
+  menu_item_id: string;
+  component_id: string;
+  quantity_per_portion: number;
+}
+
+export interface DishNeed {
+  menu_item_id: string;
+  name: string;
+  quantity_needed: number; // Portions of the dish
+}
+
+export interface ModifierNeed {
+  component_id: string;
+  name: string; // Modifier name on the POS report
+  count: number; // Modifiers expected to sell
+  quantity_per_unit: number;
+}
+
+export interface SourceItem {
+  menu_item_id: string | null; // null for a POS modifier
+  name: string;
+  portions: number; // Dish portions, or modifiers sold
+  quantity: number; // Amount of the component those portions use
+}
+
+export interface ComponentNeed<C extends PrepComponent = PrepComponent> {
+  component: C;
+  quantity_needed: number;
+  source_items: SourceItem[];
+}
+
+// Round up to the hundredth so fractional usage never comes out short
+const roundUp = (value: number) => Math.ceil(Math.round(value * 1e6) / 1e4) / 100;
+
+/**
+ * Total component needs for the dishes being prepped and the modifiers expected
+ * to sell, one entry per component per station, largest source first
+ */
+export const aggregateComponentNeeds = <C extends PrepComponent>(
+  dishes: DishNeed[],
+  usages: ComponentUsage[],
+  components: Map<string, C>,
+  modifierNeeds: ModifierNeed[] = []
+): ComponentNeed<C>[] => {
+  const needs = new Map<string, ComponentNeed<C>>();
+
+  const addNeed = (component: C, source: SourceItem, quantity: number) => {
+    const key = `${component.id}:${component.station}`;
+    const need = needs.get(key) || { component, quantity_needed: 0, source_items: [] };
+    need.quantity_needed += quantity;
+    need.source_items.push(source);
+    needs.set(key, need);
+  };
+
+  dishes.forEach((dish) => {
+    if (dish.quantity_needed <= 0) return;
+    usages
+      .filter((usage) => usage.menu_item_id === dish.menu_item_id)
+      .forEach((usage) => {
+        const component = components.get(usage.component_id);
+        if (!component) return;
+
+        const quantity = dish.quantity_needed * usage.quantity_per_portion;
+        addNeed(
+          component,
+          { menu_item_id: dish.menu_item_id, name: dish.name, portions: dish.quantity_needed, quantity: roundUp(quantity) },
+          quantity
+        );
+      });
+  });
+
+  modifierNeeds.forEach((modifier) => {
+    const component = components.get(modifier.component_id);
+    if (!component || modifier.count <= 0) return;
+
+    const quantity = modifier.count * modifier.quantity_per_unit;
+    addNeed(
+      component,
+      { menu_item_id: null, name: modifier.name, portions: modifier.count, quantity: roundUp(quantity) },
+      quantity
+    );
+  });
+
+  return Array.from(needs.values()).map((need) => ({
+    ...need,
+    quantity_needed: roundUp(need.quantity_needed),
+    source_items: need.source_items.sort((a, b) => b.quantity - a.quantity),
+  }));
+};
+
+/**
+ * Ids of dishes that are prepped through their components rather than as a whole
+ */
+export const getComponentDishIds = (
+  usages: ComponentUsage[],
+  components: Map<string, PrepComponent>
+): Set<string> =>
+  new Set(usages.filter((usage) => components.has(usage.component_id)).map((usage) => usage.menu_item_id));
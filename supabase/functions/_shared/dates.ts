@@ -0,0 +1,57 @@
+/**
+ * Kitchen calendar helpers. All dates are plain "YYYY-MM-DD" strings in the kitchen's timezone.
+ */
+
+// The club is in Columbia, Missouri
+export const DEFAULT_KITCHEN_TIMEZONE = "America/Chicago";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check that a value is a valid "YYYY-MM-DD" calendar date
+ */
+export function isValidDateString(value: unknown): value is string {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Get the calendar date in the kitchen's timezone for an instant (defaults to now)
+ */
+export function getKitchenDate(timeZone: string = DEFAULT_KITCHEN_TIMEZONE, instant: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+/**
+ * Day of week for a calendar date: 0=Sunday through 6=Saturday
+ */
+export function getDayOfWeek(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Add (or subtract) whole days to a calendar date
+ */
+export function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Format a calendar date for display, e.g. "Friday, Jan 23"
+ */
+export function formatKitchenDate(
+  dateStr: string,
+  options: Intl.DateTimeFormatOptions = { weekday: "long", month: "short", day: "numeric" }
+): string {
+  // Noon UTC keeps the date stable when formatted in the UTC zone
+  return new Date(`${dateStr}T12:00:00Z`).toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+}
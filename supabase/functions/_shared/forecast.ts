@@ -0,0 +1,105 @@
+/**
+ * Sales forecasting: looks at the same weekday over the trailing weeks of
+ * sales history and projects an expected number sold for a target date.
+ */
+
+import { addDays } from "./dates.ts";
+
+export const DEFAULT_FORECAST_WEEKS = 6;
+
+export interface SalesPoint {
+  date: string; // YYYY-MM-DD
+  quantity: number;
+}
+
+export interface ForecastOptions {
+  weeks?: number; // Trailing weeks of the same weekday to consider
+  trimOutliers?: boolean; // Drop samples far from the median (holidays, private events)
+  trendDamping?: number; // 0 = ignore trend, 1 = full linear projection
+}
+
+export interface Forecast {
+  expected: number; // Rounded expected quantity sold
+  baseline: number; // Weighted moving average of the kept samples
+  trend: number; // Change per week from a least-squares fit
+  sampleCount: number; // Samples used after trimming
+  trimmedCount: number; // Samples dropped as outliers
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Remove samples more than three scaled median absolute deviations from the median.
+ * Needs at least four samples to say anything is unusual.
+ */
+const trimOutliers = <T extends { quantity: number }>(samples: T[]): T[] => {
+  if (samples.length < 4) return samples;
+
+  const quantities = samples.map((s) => s.quantity);
+  const center = median(quantities);
+  const mad = median(quantities.map((q) => Math.abs(q - center)));
+  if (mad === 0) return samples;
+
+  // 1.4826 scales MAD to a standard deviation for normally distributed data
+  const limit = 3 * 1.4826 * mad;
+  return samples.filter((s) => Math.abs(s.quantity - center) <= limit);
+};
+
+/**
+ * Forecast expected sales for a target date from same-weekday history.
+ * Returns null when there is no history for that weekday.
+ */
+export function forecastSales(
+  history: SalesPoint[],
+  targetDate: string,
+  options: ForecastOptions = {}
+): Forecast | null {
+  const weeks = options.weeks ?? DEFAULT_FORECAST_WEEKS;
+  const damping = options.trendDamping ?? 0.5;
+
+  const byDate = new Map(history.map((point) => [point.date, point.quantity]));
+
+  // weeksAgo = 1 is the same weekday last week
+  const samples: { weeksAgo: number; quantity: number }[] = [];
+  for (let weeksAgo = 1; weeksAgo <= weeks; weeksAgo++) {
+    const quantity = byDate.get(addDays(targetDate, -7 * weeksAgo));
+    if (quantity !== undefined) {
+      samples.push({ weeksAgo, quantity });
+    }
+  }
+
+  if (samples.length === 0) return null;
+
+  const kept = options.trimOutliers === false ? samples : trimOutliers(samples);
+
+  // Linear weights: the most recent week counts the most
+  const weightOf = (weeksAgo: number) => weeks - weeksAgo + 1;
+  const totalWeight = kept.reduce((sum, s) => sum + weightOf(s.weeksAgo), 0);
+  const baseline = kept.reduce((sum, s) => sum + s.quantity * weightOf(s.weeksAgo), 0) / totalWeight;
+
+  // Least-squares slope with x = -weeksAgo, so a positive trend means growing sales
+  let trend = 0;
+  if (kept.length >= 3) {
+    const meanX = kept.reduce((sum, s) => sum - s.weeksAgo, 0) / kept.length;
+    const meanY = kept.reduce((sum, s) => sum + s.quantity, 0) / kept.length;
+    const covariance = kept.reduce((sum, s) => sum + (-s.weeksAgo - meanX) * (s.quantity - meanY), 0);
+    const variance = kept.reduce((sum, s) => sum + (-s.weeksAgo - meanX) ** 2, 0);
+    trend = variance === 0 ? 0 : covariance / variance;
+  }
+
+  // Project the weighted average from its weighted center forward to the target week (x = 0)
+  const weightedCenter = kept.reduce((sum, s) => sum - s.weeksAgo * weightOf(s.weeksAgo), 0) / totalWeight;
+  const projected = baseline + trend * damping * (0 - weightedCenter);
+
+  return {
+    expected: Math.max(0, Math.round(projected)),
+    baseline,
+    trend,
+    sampleCount: kept.length,
+    trimmedCount: samples.length - kept.length,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Sales ignore rules. Admins keep a list of POS lines that aren't dishes (modifiers, service
+ * instructions, open items); parsed sales matching a rule are set aside
+ * instead of being saved.
+ */
+
+import { getNameKey } from "./names.ts";
+
+export type IgnoreMatchType = "exact" | "prefix" | "regex";
+
+export interface IgnoreRule {
+  id: string;
+  pattern: string;
+  match_type: IgnoreMatchType;
+}
+
+export type IgnoredSale<T> = T & { ignored_by: IgnoreRule };
+
+const toRegExp = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+};
+
+// Whether a pattern can be used; only regular expressions can be malformed
+export const isValidIgnorePattern = (pattern: string, matchType: IgnoreMatchType): boolean =>
+  pattern.trim() !== "" && (matchType !== "regex" || toRegExp(pattern) !== null);
+
+export const matchesIgnoreRule = (name: string, rule: IgnoreRule): boolean => {
+  switch (rule.match_type) {
+    case "exact":
+      return getNameKey(name) === getNameKey(rule.pattern);
+    case "prefix":
+      // Keep a trailing space so "SUB " doesn't catch "SUBWAY SALAD"
+      return getNameKey(name).startsWith(rule.pattern.toLowerCase().replace(/\s+/g, " ").trimStart());
+    case "regex":
+      return toRegExp(rule.pattern)?.test(name.trim()) ?? false;
+  }
+};
+
+// First rule a POS line matches, or null when it should be kept
+export const findIgnoreRule = (name: string, rules: IgnoreRule[]): IgnoreRule | null =>
+  rules.find((rule) => matchesIgnoreRule(name, rule)) ?? null;
+
+/**
+ * Split parsed sales into lines to keep and lines a rule suppressed.
+ * Rules are checked against the name on the report, then the parsed name.
+ */
+export const applyIgnoreRules = <T extends { name: string; original_name?: string }>(
+  items: T[],
+  rules: IgnoreRule[]
+): { items: T[]; ignored: IgnoredSale<T>[] } => {
+  const kept: T[] = [];
+  const ignored: IgnoredSale<T>[] = [];
+  items.forEach((item) => {
+    const rule =
+      (item.original_name ? findIgnoreRule(item.original_name, rules) : null) ?? findIgnoreRule(item.name, rules);
+    if (rule) ignored.push({ ...item, ignored_by: rule });
+    else kept.push(item);
+  });
+  return { items: kept, ignored };
+};
+
+// Short description of a rule for review tables, e.g. starts with "ADD "
+export const describeIgnoreRule = (rule: IgnoreRule): string => {
+  switch (rule.match_type) {
+    case "exact":
+      return `is "${rule.pattern}"`;
+    case "prefix":
+      return `starts with "${rule.pattern}"`;
+    case "regex":
+      return `matches /${rule.pattern}/`;
+  }
+};
@@ -0,0 +1,69 @@
+/**
+ * Prep labor estimates. Works out how long a task usually takes per unit from recent timed tasks
+ * and scales it to the quantity on a new list.
+ */
+
+export const LABOR_HISTORY_DAYS = 90;
+export const LABOR_HISTORY_TASKS = 20; // Most recent timed tasks per item that count
+
+export interface TaskTiming {
+  quantity: number; // Quantity made (or needed when nothing was entered)
+  active_seconds: number; // Time the task was running, pauses excluded
+}
+
+export interface StationLabor {
+  station: string;
+  minutes: number; // Estimated minutes across the station's timed tasks
+  taskCount: number;
+  unestimatedCount: number; // Tasks with no timing history to go on
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Typical seconds per unit across timed tasks, or null without any usable timings.
+ * The median keeps one forgotten timer or interrupted task from skewing it.
+ */
+export const getSecondsPerUnit = (timings: TaskTiming[]): number | null => {
+  const rates = timings
+    .filter((timing) => timing.quantity > 0 && timing.active_seconds > 0)
+    .map((timing) => timing.active_seconds / timing.quantity);
+  return rates.length > 0 ? median(rates) : null;
+};
+
+// Expected minutes to prep a quantity, to one decimal place
+export const estimateLaborMinutes = (secondsPerUnit: number | null, quantity: number): number | null => {
+  if (secondsPerUnit === null || quantity <= 0) return null;
+  return Math.round((secondsPerUnit * quantity) / 6) / 10;
+};
+
+// Total estimated minutes per station, busiest station first
+export const totalLaborByStation = (
+  tasks: { station: string; quantity_needed: number; labor_minutes: number | null }[]
+): StationLabor[] => {
+  const totals = new Map<string, StationLabor>();
+  tasks
+    .filter((task) => task.quantity_needed > 0)
+    .forEach((task) => {
+      const total = totals.get(task.station) || { station: task.station, minutes: 0, taskCount: 0, unestimatedCount: 0 };
+      total.taskCount += 1;
+      if (task.labor_minutes === null) total.unestimatedCount += 1;
+      else total.minutes = Math.round((total.minutes + task.labor_minutes) * 10) / 10;
+      totals.set(task.station, total);
+    });
+  return Array.from(totals.values()).sort((a, b) => b.minutes - a.minutes);
+};
+
+// "2h 15m", "45m", or "< 1m" for a duration in minutes
+export const formatLaborMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  if (rounded < 1) return "< 1m";
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
@@ -0,0 +1,45 @@
+/**
+ * POS modifier mappings. Modifier lines like "ADD SALMON" aren't dishes, but each one uses up a
+ * dish portion or some of a prep component; the mapping says which, and how
+ * much per modifier sold.
+ */
+
+import { getNameKey } from "./names.ts";
+
+export interface SalesModifier {
+  id: string;
+  name: string; // Name on the POS sales report
+  menu_item_id: string | null;
+  component_id: string | null;
+  quantity_per_unit: number;
+}
+
+export type ModifierSale<T, M extends SalesModifier = SalesModifier> = T & { modifier: M };
+
+export const findModifier = <M extends SalesModifier>(name: string, modifiers: M[]): M | null => {
+  const key = getNameKey(name);
+  return modifiers.find((modifier) => getNameKey(modifier.name) === key) ?? null;
+};
+
+/**
+ * Split parsed sales into dish lines and mapped modifier lines.
+ * Modifiers are looked up by the name on the report, then the parsed name.
+ */
+export const splitModifierSales = <T extends { name: string; original_name?: string }, M extends SalesModifier>(
+  items: T[],
+  modifiers: M[]
+): { items: T[]; modifiers: ModifierSale<T, M>[] } => {
+  const kept: T[] = [];
+  const modifierSales: ModifierSale<T, M>[] = [];
+  items.forEach((item) => {
+    const modifier =
+      (item.original_name ? findModifier(item.original_name, modifiers) : null) ?? findModifier(item.name, modifiers);
+    if (modifier) modifierSales.push({ ...item, modifier });
+    else kept.push(item);
+  });
+  return { items: kept, modifiers: modifierSales };
+};
+
+// Dish portions or component units used by a number of modifiers sold
+export const getModifierUsage = (modifier: SalesModifier, quantitySold: number): number =>
+  Math.round(quantitySold * modifier.quantity_per_unit * 100) / 100;
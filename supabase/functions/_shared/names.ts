@@ -0,0 +1,6 @@
+/**
+ * POS name keys. Reports differ in case and spacing, so names are compared
+ * by key.
+ */
+
+export const getNameKey = (name: string): string => name.toLowerCase().replace(/\s+/g, " ").trim();
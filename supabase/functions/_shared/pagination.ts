@@ -0,0 +1,27 @@
+/**
+ * Paged reads. PostgREST caps a response at 1000 rows, so history queries that can grow
+ * past that read page by page until a short page comes back.
+ */
+
+export const PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: unknown;
+}
+
+/**
+ * Read every row of a query. fetchPage applies .range(from, to) to a query
+ * with a stable order, so pages don't overlap or skip rows.
+ */
+export const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
@@ -0,0 +1,49 @@
+/**
+ * Date-specific par overrides for events, holidays and banquets.
+ * The most specific rule for an item wins: item, then station, then the whole kitchen.
+ */
+
+export interface ParOverride {
+  id: string;
+  label: string;
+  menu_item_id: string | null;
+  station: string | null;
+  multiplier: number | null;
+  par_quantity: number | null;
+}
+
+export interface ResolvedPar {
+  par: number;
+  override: ParOverride | null;
+}
+
+/**
+ * Pick the rule that applies to an item on the override date, if any
+ */
+export const findOverride = (
+  overrides: ParOverride[],
+  item: { id: string; station: string }
+): ParOverride | null =>
+  overrides.find((o) => o.menu_item_id === item.id) ||
+  overrides.find((o) => o.menu_item_id === null && o.station === item.station) ||
+  overrides.find((o) => o.menu_item_id === null && o.station === null) ||
+  null;
+
+/**
+ * Apply an override to the weekday par. Multiplied pars round up to whole units;
+ * absolute values replace the weekday par outright.
+ */
+export const applyOverride = (weekdayPar: number, override: ParOverride | null): number => {
+  if (!override) return weekdayPar;
+  if (override.par_quantity !== null) return override.par_quantity;
+  return Math.ceil(weekdayPar * (override.multiplier ?? 1));
+};
+
+export const resolvePar = (
+  weekdayPar: number,
+  item: { id: string; station: string },
+  overrides: ParOverride[]
+): ResolvedPar => {
+  const override = findOverride(overrides, item);
+  return { par: applyOverride(weekdayPar, override), override };
+};
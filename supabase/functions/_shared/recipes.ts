@@ -0,0 +1,193 @@
+/**
+ * Recipe helpers. An ingredient can reference another recipe (a sub-recipe such as a house
+ * aioli) by id; scaling, costing and prep expansion follow those references
+ * and stop at cycles.
+ */
+
+import { DEFAULT_UNITS, findUnit, parseAmount, sameMeasure, type UnitDef } from "./units.ts";
+
+export interface RecipeIngredient {
+  item: string;
+  quantity: string;
+  measure?: string;
+  unit_cost?: number;
+  total_cost?: number;
+  recipe_id?: string | null; // Set when the ingredient is made from another recipe
+}
+
+export interface RecipeNode {
+  id: string;
+  name: string;
+  ingredients: RecipeIngredient[];
+  yield_amount: string | null;
+  yield_measure: string | null;
+  recipe_cost: number | null;
+}
+
+export interface SubRecipeNeed {
+  recipe_id: string;
+  name: string;
+  batches: number; // Batches of the sub-recipe at its stored yield
+}
+
+/**
+ * Read the ingredients JSONB, which older imports stored as a JSON string
+ */
+export const parseIngredients = (value: unknown): RecipeIngredient[] => {
+  if (!value) return [];
+  try {
+    const parsed = typeof value === "string" ? JSON.parse(value) : value;
+    return Array.isArray(parsed) ? (parsed as RecipeIngredient[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Factor that turns a recipe's yield into a wanted amount, or null when the
+ * yield and the wanted unit can't be compared (e.g. "1 gal" vs "portions").
+ * A yield with no measure is taken to be in the wanted unit; a ranged yield
+ * counts as its low end so the batch comes out at least big enough.
+ */
+export const getScaleFactor = (
+  yieldAmount: string | null | undefined,
+  yieldMeasure: string | null | undefined,
+  quantity: number,
+  unit: string,
+  units: UnitDef[] = DEFAULT_UNITS
+): number | null => {
+  const yieldParsed = parseAmount(yieldAmount, yieldMeasure, units);
+  if (!yieldParsed || yieldParsed.min <= 0 || quantity <= 0) return null;
+
+  const unitDef = findUnit(unit, units);
+  if (yieldParsed.unit && unitDef) {
+    if (yieldParsed.unit.family !== unitDef.family) return null;
+    return (quantity * unitDef.toBase) / (yieldParsed.min * yieldParsed.unit.toBase);
+  }
+
+  if (!yieldParsed.unitText || sameMeasure(yieldParsed.unitText, unit)) {
+    return quantity / yieldParsed.min;
+  }
+  return null;
+};
+
+/**
+ * Batches of a sub-recipe one ingredient line calls for, or null if the line's
+ * quantity can't be compared with the sub-recipe's yield
+ */
+export const getSubRecipeBatches = (
+  ingredient: RecipeIngredient,
+  subRecipe: RecipeNode,
+  units: UnitDef[] = DEFAULT_UNITS
+): number | null => {
+  const amount = parseAmount(ingredient.quantity, ingredient.measure, units);
+  if (!amount) return null;
+  return getScaleFactor(subRecipe.yield_amount, subRecipe.yield_measure, amount.max, amount.unitText, units);
+};
+
+/**
+ * Cost of a plain ingredient line: the imported total when there is one,
+ * otherwise the unit cost times the quantity (the top of a range)
+ */
+export const getLineCost = (
+  ingredient: RecipeIngredient,
+  units: UnitDef[] = DEFAULT_UNITS
+): number | null => {
+  if (ingredient.total_cost != null) return ingredient.total_cost;
+  if (ingredient.unit_cost == null) return null;
+  const amount = parseAmount(ingredient.quantity, ingredient.measure, units);
+  return amount ? amount.max * ingredient.unit_cost : null;
+};
+
+/**
+ * Ids along the first sub-recipe loop that leads back to the root recipe,
+ * starting and ending with the root, or null when there is none
+ */
+export const findCycle = (
+  rootId: string,
+  ingredients: RecipeIngredient[],
+  recipes: Map<string, RecipeNode>
+): string[] | null => {
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === rootId) return [...path, id];
+    // Loops that don't pass through the root are reported when that recipe is saved
+    if (path.includes(id)) return null;
+    const recipe = recipes.get(id);
+    if (!recipe) return null;
+    for (const ingredient of recipe.ingredients) {
+      if (!ingredient.recipe_id) continue;
+      const cycle = visit(ingredient.recipe_id, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const ingredient of ingredients) {
+    if (!ingredient.recipe_id) continue;
+    const cycle = visit(ingredient.recipe_id, [rootId]);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+/**
+ * Cost of one batch, rolling sub-recipe costs up by the batches each line uses.
+ * Falls back to the stored recipe cost when no line can be costed.
+ */
+export const getRolledUpCost = (
+  recipe: RecipeNode,
+  recipes: Map<string, RecipeNode>,
+  units: UnitDef[] = DEFAULT_UNITS,
+  visiting: Set<string> = new Set()
+): number | null => {
+  if (visiting.has(recipe.id)) return null;
+  const path = new Set(visiting).add(recipe.id);
+
+  const costs = recipe.ingredients
+    .map((ingredient) => {
+      if (ingredient.total_cost != null || !ingredient.recipe_id) return getLineCost(ingredient, units);
+      const subRecipe = recipes.get(ingredient.recipe_id);
+      if (!subRecipe) return null;
+      const batches = getSubRecipeBatches(ingredient, subRecipe, units);
+      const subCost = getRolledUpCost(subRecipe, recipes, units, path);
+      return batches !== null && subCost !== null ? batches * subCost : null;
+    })
+    .filter((cost): cost is number => cost !== null);
+
+  return costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) : recipe.recipe_cost;
+};
+
+/**
+ * Every sub-recipe batch needed to make some batches of a recipe, including
+ * sub-recipes of sub-recipes. Lines whose quantity can't be compared with the
+ * sub-recipe's yield are left out.
+ */
+export const explodeSubRecipes = (
+  recipe: RecipeNode,
+  batches: number,
+  recipes: Map<string, RecipeNode>,
+  units: UnitDef[] = DEFAULT_UNITS
+): SubRecipeNeed[] => {
+  const needs = new Map<string, SubRecipeNeed>();
+
+  const walk = (node: RecipeNode, nodeBatches: number, visiting: Set<string>) => {
+    node.ingredients.forEach((ingredient) => {
+      if (!ingredient.recipe_id || visiting.has(ingredient.recipe_id)) return;
+      const subRecipe = recipes.get(ingredient.recipe_id);
+      if (!subRecipe) return;
+      const perBatch = getSubRecipeBatches(ingredient, subRecipe, units);
+      if (perBatch === null) return;
+
+      const subBatches = perBatch * nodeBatches;
+      needs.set(subRecipe.id, {
+        recipe_id: subRecipe.id,
+        name: subRecipe.name,
+        batches: (needs.get(subRecipe.id)?.batches || 0) + subBatches,
+      });
+      walk(subRecipe, subBatches, new Set(visiting).add(subRecipe.id));
+    });
+  };
+
+  walk(recipe, batches, new Set([recipe.id]));
+  return Array.from(needs.values());
+};
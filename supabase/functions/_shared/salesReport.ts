@@ -0,0 +1,110 @@
+/**
+ * Rule-based parser for the POS "Item Sales Report". The report has a fixed
+ * layout (Item | Units Sold | Sales | Discounts | Net Sales | Tax | Svc Chg), so
+ * CSV and spreadsheet exports of it are read directly; anything it doesn't recognize
+ * goes to the AI parser instead. Modifiers and other non-dish lines are left
+ * in for the sales ignore rules to set aside.
+ */
+
+export interface ParsedSale {
+  name: string; // Menu item name when it matches one exactly, otherwise the report's
+  quantity: number; // Units sold, rounded to a whole number
+  original_name: string; // Item name as it appears on the report
+}
+
+export type ReportCell = string | number | boolean | null | undefined;
+
+const cellText = (cell: ReportCell) => String(cell ?? "").replace(/\s+/g, " ").trim();
+
+// Category and report totals, part of the report's layout rather than items
+const isTotalsRow = (name: string) => {
+  const key = name.toLowerCase();
+  return key.startsWith("item category totals") || key.startsWith("totals");
+};
+
+// Units sold as a number; null for blanks and text such as category headers
+const parseUnits = (cell: ReportCell): number | null => {
+  if (typeof cell === "number") return Number.isFinite(cell) ? cell : null;
+  const text = cellText(cell).replace(/,/g, "");
+  if (text === "" || !/^-?\d*\.?\d+$/.test(text)) return null;
+  return Number(text);
+};
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells containing commas,
+ * doubled quotes and line breaks.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Read item sales from the rows of an Item Sales Report.
+ * Returns null when there's no "Item" / "Units Sold" header row to go on.
+ */
+export const parseSalesReportRows = (rows: ReportCell[][], menuItems: string[] = []): ParsedSale[] | null => {
+  const headerIndex = rows.findIndex((row) => {
+    const headers = row.map((cell) => cellText(cell).toLowerCase());
+    return headers.includes("item") && headers.includes("units sold");
+  });
+  if (headerIndex === -1) return null;
+
+  const headers = rows[headerIndex].map((cell) => cellText(cell).toLowerCase());
+  const itemColumn = headers.indexOf("item");
+  const unitsColumn = headers.indexOf("units sold");
+  const menuNames = new Map(menuItems.map((name) => [name.toLowerCase(), name]));
+
+  return rows.slice(headerIndex + 1).flatMap((row) => {
+    const originalName = cellText(row[itemColumn]);
+    const units = parseUnits(row[unitsColumn]);
+    if (!originalName || units === null || isTotalsRow(originalName)) return [];
+
+    const quantity = Math.round(units);
+    if (quantity <= 0) return [];
+
+    return [{
+      name: menuNames.get(originalName.toLowerCase()) ?? originalName,
+      quantity,
+      original_name: originalName,
+    }];
+  });
+};
+
+// Read item sales from a CSV export of the report, or null when the layout isn't recognized
+export const parseSalesReportCsv = (text: string, menuItems: string[] = []): ParsedSale[] | null =>
+  parseSalesReportRows(parseCsv(text), menuItems);
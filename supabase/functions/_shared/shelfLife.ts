@@ -0,0 +1,79 @@
+/**
+ * Shelf life from the free-text recipe field ("3 days", "48 hrs", "1 week",
+ * "2-3 days") and the use-by dates and stock checks built on it. A use-by date
+ * is the last service day the product can go out: prepped Monday with a
+ * three-day shelf life, it is good for Monday, Tuesday and Wednesday. Product
+ * whose recipe has no shelf life is only counted good on the day it was prepped.
+ */
+
+import { addDays } from "./dates.ts";
+
+export interface StockLot {
+  id: string;
+  prepped_on: string;
+  expires_on: string | null;
+  quantity_remaining: number;
+}
+
+export type StockFlag = "use_first" | "discard";
+
+const PERIODS: [RegExp, number][] = [
+  [/^(h|hr|hrs|hour|hours)$/, 1 / 24],
+  [/^(d|day|days)$/, 1],
+  [/^(w|wk|wks|week|weeks)$/, 7],
+  [/^(mo|month|months)$/, 30],
+];
+
+/**
+ * Whole days a product keeps, or null when the text can't be read. Ranges
+ * count as their low end and part days round up to a full service day.
+ */
+export const parseShelfLifeDays = (text: string | null | undefined): number | null => {
+  if (!text) return null;
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*\d+(?:\.\d+)?)?\s*([a-z]+)\.?$/);
+  if (!match) return null;
+
+  const period = PERIODS.find(([pattern]) => pattern.test(match[2]));
+  if (!period) return null;
+  const days = Math.ceil(parseFloat(match[1]) * period[1] - 1e-9);
+  return days > 0 ? days : null;
+};
+
+/**
+ * Last service day for product prepped on a date, or null without a shelf life
+ */
+export const getUseByDate = (preppedOn: string, shelfLifeDays: number | null): string | null =>
+  shelfLifeDays === null ? null : addDays(preppedOn, shelfLifeDays - 1);
+
+/**
+ * Last service day a lot can go out: its use-by date, or the day it was
+ * prepped when there is no shelf life to go on
+ */
+export const getLotUseBy = (lot: StockLot): string => lot.expires_on ?? lot.prepped_on;
+
+/**
+ * Whether stock can still go out for service on a date
+ */
+export const isInDate = (lot: StockLot, serviceDate: string): boolean => getLotUseBy(lot) >= serviceDate;
+
+/**
+ * What to do with stock on the morning of a service date: throw out what has
+ * expired, and use first what won't last past today
+ */
+export const getStockFlag = (lot: StockLot, serviceDate: string): StockFlag | null => {
+  const useBy = getLotUseBy(lot);
+  if (useBy < serviceDate) return "discard";
+  if (useBy === serviceDate) return "use_first";
+  return null;
+};
+
+/**
+ * Still-good stock prepped before a service date
+ */
+export const getInDateQuantity = (lots: StockLot[], serviceDate: string): number =>
+  lots
+    .filter((lot) => lot.prepped_on < serviceDate && isInDate(lot, serviceDate))
+    .reduce((sum, lot) => sum + lot.quantity_remaining, 0);
@@ -0,0 +1,324 @@
+/**
+ * Units of measure. Parses the free-text quantities used in recipes, yields and menu items,
+ * and converts within the weight, volume and count families, including
+ * hotel pans whose volumes each kitchen can configure.
+ */
+
+export type UnitFamily = "volume" | "weight" | "count";
+export type UnitSystem = "us" | "metric" | "container";
+
+export interface UnitDef {
+  label: string;
+  family: UnitFamily;
+  system: UnitSystem;
+  toBase: number; // Teaspoons for volume, ounces for weight, each for count
+  step: number; // Rounding increment when shown in this unit
+  aliases: string[];
+}
+
+export interface ParsedQuantity {
+  min: number;
+  max: number; // Equal to min unless the text was a range like "2-3"
+  rest: string; // Text after the number, e.g. "cups" or "cloves"
+}
+
+export interface Amount {
+  min: number;
+  max: number;
+  unit: UnitDef | null; // Null for measures this module doesn't know ("cloves", "bunch")
+  unitText: string; // The measure as written
+}
+
+export interface ScaledAmount {
+  quantity: string;
+  measure: string;
+  scaled: boolean; // False when the quantity couldn't be read and is shown as written
+}
+
+const TSP_PER_QT = 192;
+
+// Largest first within each family so conversions prefer the biggest sensible unit
+const STANDARD_UNITS: UnitDef[] = [
+  { label: "gal", family: "volume", system: "us", toBase: 768, step: 0.25, aliases: ["gal", "gallon"] },
+  { label: "qt", family: "volume", system: "us", toBase: TSP_PER_QT, step: 0.25, aliases: ["qt", "quart"] },
+  { label: "pt", family: "volume", system: "us", toBase: 96, step: 0.5, aliases: ["pt", "pint"] },
+  { label: "cup", family: "volume", system: "us", toBase: 48, step: 0.25, aliases: ["cup", "c"] },
+  { label: "fl oz", family: "volume", system: "us", toBase: 6, step: 0.5, aliases: ["fl oz", "floz", "fluid ounce"] },
+  { label: "tbsp", family: "volume", system: "us", toBase: 3, step: 0.5, aliases: ["tbsp", "tbs", "tablespoon", "T"] },
+  { label: "tsp", family: "volume", system: "us", toBase: 1, step: 0.25, aliases: ["tsp", "teaspoon", "t"] },
+  { label: "L", family: "volume", system: "metric", toBase: 202.884, step: 0.05, aliases: ["l", "liter", "litre"] },
+  { label: "ml", family: "volume", system: "metric", toBase: 0.202884, step: 5, aliases: ["ml", "milliliter", "millilitre"] },
+  { label: "lb", family: "weight", system: "us", toBase: 16, step: 0.25, aliases: ["lb", "lbs", "pound", "#"] },
+  { label: "oz", family: "weight", system: "us", toBase: 1, step: 0.25, aliases: ["oz", "ounce", "wt oz"] },
+  { label: "kg", family: "weight", system: "metric", toBase: 35.274, step: 0.05, aliases: ["kg", "kilo", "kilogram"] },
+  { label: "g", family: "weight", system: "metric", toBase: 0.035274, step: 5, aliases: ["g", "gr", "gram"] },
+  { label: "dozen", family: "count", system: "us", toBase: 12, step: 0.5, aliases: ["dozen", "doz", "dz"] },
+  { label: "each", family: "count", system: "us", toBase: 1, step: 1, aliases: ["each", "ea", "piece", "pc", "pcs", "whole"] },
+];
+
+/**
+ * Default hotel pan volumes in quarts, for 4" deep pans
+ */
+export const DEFAULT_PAN_SIZES: Record<string, number> = {
+  "full pan": 13.7,
+  "1/2 pan": 6.4,
+  "1/3 pan": 4.1,
+  "1/4 pan": 2.9,
+  "1/6 pan": 1.7,
+  "1/9 pan": 0.9,
+};
+
+const PAN_ALIASES: Record<string, string[]> = {
+  "full pan": ["full pan", "hotel pan", "full hotel pan", "1/1 pan"],
+  "1/2 pan": ["1/2 pan", "half pan", "1/2 hotel pan"],
+  "1/3 pan": ["1/3 pan", "third pan", "1/3 hotel pan"],
+  "1/4 pan": ["1/4 pan", "quarter pan", "1/4 hotel pan"],
+  "1/6 pan": ["1/6 pan", "sixth pan", "1/6 hotel pan"],
+  "1/9 pan": ["1/9 pan", "ninth pan", "1/9 hotel pan"],
+};
+
+/**
+ * Build the unit table, overriding pan volumes (in quarts) for this kitchen
+ */
+export const createUnits = (panSizes: Record<string, number> = {}): UnitDef[] => {
+  const pans: UnitDef[] = Object.entries({ ...DEFAULT_PAN_SIZES, ...panSizes })
+    .filter(([label, quarts]) => PAN_ALIASES[label] && quarts > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([label, quarts]) => ({
+      label,
+      family: "volume",
+      system: "container",
+      toBase: quarts * TSP_PER_QT,
+      step: 0.5,
+      aliases: PAN_ALIASES[label],
+    }));
+  return [...STANDARD_UNITS, ...pans];
+};
+
+/**
+ * Read pan volumes from a JSON config value like {"1/6 pan": 2}.
+ * Anything unreadable falls back to the defaults.
+ */
+export const parsePanSizes = (json: string | undefined | null): Record<string, number> => {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== "object") return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, number] => typeof entry[1] === "number" && entry[1] > 0
+      )
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const DEFAULT_UNITS = createUnits();
+
+// Rounding may move an amount this far before dropping to a smaller unit
+const ROUNDING_TOLERANCE = 0.05;
+
+const VULGAR_FRACTIONS: Record<string, string> = {
+  "¼": " 1/4",
+  "½": " 1/2",
+  "¾": " 3/4",
+  "⅓": " 1/3",
+  "⅔": " 2/3",
+  "⅛": " 1/8",
+};
+
+const normalizeUnitText = (text: string): string =>
+  text.trim().replace(/\.$/, "").replace(/\s+/g, " ");
+
+const singularForms = (text: string): string[] => {
+  const lower = normalizeUnitText(text).toLowerCase();
+  return [lower, lower.replace(/s$/, ""), lower.replace(/es$/, "")];
+};
+
+/**
+ * True when two measures name the same thing, ignoring case and plurals
+ */
+export const sameMeasure = (a: string, b: string): boolean => {
+  const forms = singularForms(b);
+  return singularForms(a).some((form) => forms.includes(form));
+};
+
+/**
+ * Look up a unit by name or abbreviation, ignoring plurals ("cups", "lbs.")
+ */
+export const findUnit = (text: string, units: UnitDef[] = DEFAULT_UNITS): UnitDef | null => {
+  const raw = normalizeUnitText(text);
+  if (!raw) return null;
+  // Single-letter T / t are the only case-sensitive abbreviations
+  const exact = units.find((u) => u.aliases.includes(raw));
+  if (exact) return exact;
+  const forms = singularForms(raw);
+  return units.find((u) => u.aliases.some((a) => a.length > 1 && forms.includes(a))) || null;
+};
+
+const readNumber = (text: string): { value: number; length: number } | null => {
+  const match = text.match(/^(\d+)\/(\d+)|^(\d+(?:\.\d+)?)(?:\s+(\d+)\/(\d+))?|^(\.\d+)/);
+  if (!match) return null;
+
+  let value: number;
+  if (match[1] !== undefined) {
+    value = parseInt(match[1]) / parseInt(match[2]);
+  } else if (match[3] !== undefined) {
+    value = parseFloat(match[3]);
+    if (match[4] !== undefined) value += parseInt(match[4]) / parseInt(match[5]);
+  } else {
+    value = parseFloat(match[6]);
+  }
+  return isFinite(value) ? { value, length: match[0].length } : null;
+};
+
+/**
+ * Parse a leading number or range: "2", "1.5", "3/4", "1 1/2", "1½", "2-3" or "1 to 2"
+ */
+export const parseQuantity = (text: string): ParsedQuantity | null => {
+  let normalized = text.trim();
+  Object.entries(VULGAR_FRACTIONS).forEach(([glyph, ascii]) => {
+    normalized = normalized.split(glyph).join(ascii);
+  });
+  normalized = normalized.trim();
+
+  const first = readNumber(normalized);
+  if (!first) return null;
+  let rest = normalized.slice(first.length);
+  let max = first.value;
+
+  const separator = rest.match(/^\s*(?:-|–|to)\s*/);
+  if (separator) {
+    const second = readNumber(rest.slice(separator[0].length));
+    if (second && second.value >= first.value) {
+      max = second.value;
+      rest = rest.slice(separator[0].length + second.length);
+    }
+  }
+
+  return { min: first.value, max, rest: rest.trim() };
+};
+
+/**
+ * Read an amount from a quantity and an optional separate measure.
+ * Imported recipes sometimes put the unit in the quantity ("2 cups") instead.
+ */
+export const parseAmount = (
+  quantity: string | number | null | undefined,
+  measure?: string | null,
+  units: UnitDef[] = DEFAULT_UNITS
+): Amount | null => {
+  if (quantity == null) return null;
+  let text = String(quantity).trim();
+  let unitText = normalizeUnitText(measure || "");
+
+  // "2 1/6 pans" is two sixth pans, not two and a sixth pans
+  if (!unitText) {
+    const lower = text.toLowerCase();
+    const pan = units
+      .filter((u) => u.system === "container")
+      .flatMap((u) => u.aliases)
+      .flatMap((alias) => [`${alias}s`, alias])
+      .find((alias) => lower.endsWith(alias) && lower.length > alias.length);
+    if (pan) {
+      unitText = text.slice(text.length - pan.length);
+      text = text.slice(0, text.length - pan.length);
+    }
+  }
+
+  const parsed = parseQuantity(text);
+  if (!parsed) return null;
+  unitText = unitText || normalizeUnitText(parsed.rest);
+  return { min: parsed.min, max: parsed.max, unit: findUnit(unitText, units), unitText };
+};
+
+/**
+ * Convert a value between two units of the same family, or null if they don't convert
+ */
+export const convert = (
+  value: number,
+  from: string,
+  to: string,
+  units: UnitDef[] = DEFAULT_UNITS
+): number | null => {
+  const fromUnit = findUnit(from, units);
+  const toUnit = findUnit(to, units);
+  if (!fromUnit || !toUnit || fromUnit.family !== toUnit.family) return null;
+  return (value * fromUnit.toBase) / toUnit.toBase;
+};
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+/**
+ * Show a number with kitchen fractions: 1.5 -> "1 1/2", 0.25 -> "1/4"
+ */
+export const formatQuantity = (value: number): string => {
+  const whole = Math.floor(value + 1e-9);
+  const fraction = value - whole;
+  const fractions: [number, string][] = [[0.25, "1/4"], [0.5, "1/2"], [0.75, "3/4"]];
+  const match = fractions.find(([f]) => Math.abs(fraction - f) < 1e-6);
+  if (match) return whole > 0 ? `${whole} ${match[1]}` : match[1];
+  if (fraction < 1e-6) return whole.toString();
+  return parseFloat(value.toFixed(2)).toString();
+};
+
+/**
+ * Express an amount in the largest unit of the same family and system that
+ * rounds cleanly, e.g. 48 tsp -> 1 cup, 20 oz -> 1 1/4 lb. Pans and counts
+ * stay in the unit they were written in.
+ */
+export const toBestUnit = (
+  baseValue: number,
+  like: UnitDef,
+  units: UnitDef[] = DEFAULT_UNITS
+): { value: number; unit: UnitDef } => {
+  const candidates =
+    like.system === "container" || like.family === "count"
+      ? [like]
+      : units.filter((u) => u.family === like.family && u.system === like.system);
+  for (const unit of candidates) {
+    const amount = baseValue / unit.toBase;
+    if (amount < 1) continue;
+    const rounded = roundTo(amount, unit.step);
+    if (rounded > 0 && Math.abs(rounded - amount) / amount <= ROUNDING_TOLERANCE) {
+      return { value: rounded, unit };
+    }
+  }
+  const smallest = candidates[candidates.length - 1];
+  const amount = baseValue / smallest.toBase;
+  return { value: Math.max(roundTo(amount, smallest.step), smallest.step), unit: smallest };
+};
+
+const formatRange = (min: number, max: number) =>
+  min === max ? formatQuantity(max) : `${formatQuantity(min)} to ${formatQuantity(max)}`;
+
+/**
+ * Scale a quantity and measure by a factor, rounding into a convenient unit
+ */
+export const scaleAmount = (
+  quantity: string | number | null | undefined,
+  measure: string | null | undefined,
+  factor: number,
+  units: UnitDef[] = DEFAULT_UNITS
+): ScaledAmount => {
+  const amount = parseAmount(quantity, measure, units);
+  if (!amount) {
+    return { quantity: quantity == null ? "" : String(quantity), measure: measure || "", scaled: false };
+  }
+
+  if (!amount.unit) {
+    // Unknown measures ("cloves", "bunch", "portions") scale to the nearest quarter
+    const scale = (value: number) => Math.max(roundTo(value * factor, 0.25), 0.25);
+    return { quantity: formatRange(scale(amount.min), scale(amount.max)), measure: amount.unitText, scaled: true };
+  }
+
+  // Pick the unit from the top of the range so both ends read in the same unit
+  const unit = amount.unit;
+  const best = toBestUnit(amount.max * unit.toBase * factor, unit, units);
+  const min =
+    amount.min === amount.max
+      ? best.value
+      : Math.max(roundTo((amount.min * unit.toBase * factor) / best.unit.toBase, best.unit.step), best.unit.step);
+  return { quantity: formatRange(min, best.value), measure: best.unit.label, scaled: true };
+};
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders, jsonResponse, errorResponse, inferStation } from "../_shared/utils.ts";
+import { createUnits, parseAmount, parsePanSizes } from "../_shared/units.ts";
+import { applyIgnoreRules, type IgnoreRule } from "../_shared/ignoreRules.ts";
 
 /**
  * Unified document analyzer using Google Gemini API directly
@@ -18,6 +21,39 @@ interface AnalyzeRequest {
   menuItems?: string[]; // For sales matching
 }
 
+const units = createUnits(parsePanSizes(Deno.env.get("PAN_SIZES")));
+
+interface ParsedIngredient {
+  item: string;
+  quantity?: string | number | null;
+  measure?: string;
+  unit_cost?: number;
+  total_cost?: number;
+}
+
+/**
+ * Standardize an ingredient line through the unit library: split a unit written
+ * into the quantity ("2 cups") into the measure, use the canonical unit name,
+ * and fill in the line cost when only a unit cost was given
+ */
+function normalizeIngredient(ingredient: ParsedIngredient): ParsedIngredient {
+  const quantityText = ingredient.quantity == null ? "" : String(ingredient.quantity).trim();
+  const amount = parseAmount(quantityText, ingredient.measure, units);
+  if (!amount) return { ...ingredient, quantity: quantityText };
+
+  const unitInQuantity = !ingredient.measure && amount.unitText !== "";
+  const quantity = unitInQuantity
+    ? quantityText.slice(0, quantityText.length - amount.unitText.length).trim()
+    : quantityText;
+  const measure = amount.unit ? amount.unit.label : amount.unitText || ingredient.measure;
+  const totalCost =
+    ingredient.total_cost ?? (ingredient.unit_cost != null
+      ? Math.round(amount.max * ingredient.unit_cost * 100) / 100
+      : undefined);
+
+  return { ...ingredient, quantity, measure, total_cost: totalCost };
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -96,7 +132,7 @@ For "sales":
     { "name": "Item Name", "quantity": 5, "original_name": "Name from report" }
   ]
 }
-Note: "quantity" is Units Sold (integer, NOT dollar sales). Skip modifiers, totals, Open Food.
+Note: "quantity" is Units Sold (integer, NOT dollar sales). Skip totals; keep modifiers and other lines, they are filtered out afterwards.
 
 For "par_sheet":
 {
@@ -107,6 +143,7 @@ For "par_sheet":
   "detected_days": []
 }
 Note: day_of_week: 0=Sunday through 6=Saturday. null if single "Par" column.
+If the sheet has a column per day, emit one entry per item per day, set has_multiple_days to true, and list the day numbers in detected_days.
 
 For "recipe":
 {
@@ -249,9 +286,25 @@ STATION INFERENCE RULES:
       }));
     }
 
+    // Set aside sales lines matching the admin's ignore rules
+    if (parsedData.type === "sales" && parsedData.data.items) {
+      const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+      const { data: ruleData, error: ruleError } = await supabase
+        .from("sales_ignore_rules")
+        .select("id, pattern, match_type")
+        .eq("is_active", true)
+        .order("created_at");
+
+      if (ruleError) throw ruleError;
+
+      const ignoreRules: IgnoreRule[] = ruleData || [];
+      parsedData.data = { ...parsedData.data, ...applyIgnoreRules(parsedData.data.items, ignoreRules) };
+    }
+
     if (parsedData.type === "recipe" && parsedData.data.recipes) {
       parsedData.data.recipes = parsedData.data.recipes.map((recipe: any) => ({
         ...recipe,
+        ingredients: recipe.ingredients?.map(normalizeIngredient),
         inferred_station: recipe.inferred_station || inferStation(
           recipe.name,
           undefined,
@@ -1,119 +1,860 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse, errorResponse } from "../_shared/utils.ts";
+import {
+  DEFAULT_KITCHEN_TIMEZONE,
+  addDays,
+  getDayOfWeek,
+  getKitchenDate,
+  isValidDateString,
+} from "../_shared/dates.ts";
+import { DEFAULT_FORECAST_WEEKS, forecastSales, type SalesPoint } from "../_shared/forecast.ts";
+import { findOverride, resolvePar, type ParOverride } from "../_shared/parOverrides.ts";
+import { createUnits, parsePanSizes, type UnitDef } from "../_shared/units.ts";
+import {
+  explodeSubRecipes,
+  getScaleFactor,
+  parseIngredients,
+  type RecipeNode,
+  type SubRecipeNeed,
+} from "../_shared/recipes.ts";
+import {
+  aggregateComponentNeeds,
+  getComponentDishIds,
+  type ComponentUsage,
+  type ModifierNeed,
+  type PrepComponent,
+  type SourceItem,
+} from "../_shared/components.ts";
+import { roundToBatches, type BatchSettings } from "../_shared/batches.ts";
+import {
+  getInDateQuantity,
+  getLotUseBy,
+  getStockFlag,
+  getUseByDate,
+  parseShelfLifeDays,
+  type StockFlag,
+  type StockLot,
+} from "../_shared/shelfLife.ts";
+import {
+  LABOR_HISTORY_DAYS,
+  LABOR_HISTORY_TASKS,
+  estimateLaborMinutes,
+  getSecondsPerUnit,
+  totalLaborByStation,
+  type StationLabor,
+  type TaskTiming,
+} from "../_shared/labor.ts";
+import { getModifierUsage, type SalesModifier } from "../_shared/modifiers.ts";
+import { fetchAllRows } from "../_shared/pagination.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+const MAX_DAYS = 7;
+const MAX_FORECAST_WEEKS = 12;
+
+interface GenerateRequest {
+  targetDate?: string; // Prep date to build (defaults to today in the kitchen timezone)
+  days?: number; // Number of consecutive prep dates to build, starting at targetDate
+  salesDate?: string; // Sales day to base estimates on (defaults to the day before each prep date)
+  useForecast?: boolean; // Use forecast sales instead of a single day's sales when no count exists
+  forecastWeeks?: number; // Trailing weeks of history the forecast looks at
+  preview?: boolean; // Calculate without saving so the admin can review before publishing
+  explodeSubRecipes?: boolean; // Work out the sub-recipe batches each item's recipe needs
+}
+
+type CalculationMethod = "par_minus_on_hand" | "par_override" | "forecast" | "sales";
+
+interface PreviewItem {
+  menu_item_id: string;
+  name: string;
+  station: string;
+  par_quantity: number;
+  weekday_par_quantity: number | null; // Regular par for the weekday, before any override
+  override_label: string | null;
+  on_hand_quantity: number | null;
+  forecast_quantity: number | null;
+  sold_quantity: number | null; // Includes modifiers mapped to the dish
+  in_date_quantity: number | null; // Still-good prepped stock taken off an estimate
+  shortfall_quantity: number | null; // How far the previous day's task came up short
+  raw_quantity: number; // Need before rounding up to whole batches
+  quantity_needed: number;
+  batch_count: number | null;
+  batch_container: string | null;
+  container_quantity: number | null;
+  calculation_method: CalculationMethod;
+  expires_on: string | null; // Last service day for what's prepped, from the recipe's shelf life
+  labor_minutes: number | null; // Expected prep time from past timings
+  sub_recipes: SubRecipeNeed[];
+  prepped_as_components: boolean; // Prepped through its components instead of as a finished dish
+}
+
+interface ComponentTask {
+  component_id: string;
+  name: string;
+  station: string;
+  unit: string;
+  in_date_quantity: number | null;
+  shortfall_quantity: number | null;
+  raw_quantity: number;
+  quantity_needed: number;
+  batch_count: number | null;
+  batch_container: string | null;
+  container_quantity: number | null;
+  source_items: SourceItem[]; // Dishes driving the component, largest first
+  expires_on: string | null;
+  labor_minutes: number | null;
+  sub_recipes: SubRecipeNeed[];
+}
+
+interface StockRow extends StockLot {
+  menu_item_id: string | null;
+  component_id: string | null;
+  name: string;
+  station: string;
+  unit: string;
+}
+
+interface FlaggedStock {
+  id: string;
+  name: string;
+  station: string;
+  unit: string;
+  quantity_remaining: number;
+  prepped_on: string;
+  expires_on: string;
+  flag: StockFlag;
+}
+
+interface GeneratedList {
+  prepDate: string;
+  dayOfWeek: number;
+  itemCount: number;
+  countedCount: number;
+  forecastCount: number;
+  parOverrideCount: number; // Prepped up to an event par without a count
+  salesCount: number;
+  shortfallCount: number; // Tasks the previous day's list came up short on
+  overrideCount: number;
+  componentCount: number;
+  subRecipes: SubRecipeNeed[]; // Sub-recipe batches needed across the whole list
+  labor: StationLabor[]; // Estimated prep labor per station, for staffing the shift
+  items?: PreviewItem[];
+  components?: ComponentTask[];
+  stockFlags: FlaggedStock[]; // Use-first and discard list for the morning of the prep date
+}
+
+type BatchedComponent = PrepComponent & BatchSettings & { shelf_life_days: number | null };
+
+type ComponentRow = BatchedComponent & { is_active: boolean; recipes: { shelf_life: string | null } | null };
+
+interface GenerateOptions {
+  forecastWeeks: number | null; // null when forecasting is off
+  preview: boolean;
+  recipes: Map<string, RecipeNode> | null; // null when sub-recipes aren't expanded
+  units: UnitDef[];
+  components: Map<string, BatchedComponent>; // Active prep components by id
+  componentUsages: ComponentUsage[];
+  modifiers: SalesModifier[]; // Active POS modifier mappings
+  stock: StockRow[]; // Prepped product not yet used up or thrown out
+  today: string; // Kitchen date now; only days already over can have come up short
+  laborRates: Map<string, number>; // Typical seconds per unit by menu item or component id
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// What a task came up short: the quantity made when one was entered, otherwise
+// all of it when the task was finished and none of it when it wasn't
+const getShortfall = (task: { quantity_needed: number; quantity_produced: number | null; status: string }) => {
+  const produced = task.quantity_produced ?? (task.status === "completed" ? task.quantity_needed : 0);
+  return Math.max(0, round2(task.quantity_needed - produced));
+};
+
+const roundBatches = (needs: SubRecipeNeed[]): SubRecipeNeed[] =>
+  needs.map((need) => ({ ...need, batches: Math.round(need.batches * 100) / 100 }));
+
+// Sub-recipe batches for prepping a quantity of something made from a recipe
+const getSubRecipeNeeds = (
+  recipeId: string | null,
+  quantity: number,
+  unit: string,
+  options: GenerateOptions
+): SubRecipeNeed[] => {
+  const recipe = options.recipes && recipeId ? options.recipes.get(recipeId) : undefined;
+  if (!recipe || quantity <= 0) return [];
+  const batches = getScaleFactor(recipe.yield_amount, recipe.yield_measure, quantity, unit, options.units);
+  return batches === null ? [] : roundBatches(explodeSubRecipes(recipe, batches, options.recipes!, options.units));
 };
 
+// Sum sub-recipe needs across tasks so shared sub-recipes appear once
+const totalSubRecipes = (items: { sub_recipes: SubRecipeNeed[] }[]): SubRecipeNeed[] => {
+  const totals = new Map<string, SubRecipeNeed>();
+  items.forEach((item) =>
+    item.sub_recipes.forEach((need) => {
+      const batches = (totals.get(need.recipe_id)?.batches || 0) + need.batches;
+      totals.set(need.recipe_id, { ...need, batches });
+    })
+  );
+  return roundBatches(Array.from(totals.values()));
+};
+
+// Add a day's quantity to a sales history, summing quantities from the same day
+const addSalesPoint = (history: Map<string, SalesPoint[]>, id: string, date: string, quantity: number) => {
+  const points = history.get(id) || [];
+  const point = points.find((p) => p.date === date);
+  if (point) point.quantity += quantity;
+  else points.push({ date, quantity });
+  history.set(id, points);
+};
+
+async function generateForDate(
+  supabase: SupabaseClient,
+  prepDate: string,
+  salesDate: string,
+  options: GenerateOptions
+): Promise<GeneratedList> {
+  const dayOfWeek = getDayOfWeek(prepDate);
+  // Closing counts are taken the night before the prep date
+  const countDate = addDays(prepDate, -1);
+
+  // Get all active menu items with their par levels for the prep day
+  const { data: menuItems, error: menuError } = await supabase
+    .from("menu_items")
+    .select(`
+      id,
+      name,
+      station,
+      unit,
+      recipe_id,
+      min_batch,
+      batch_increment,
+      batch_container,
+      batch_container_quantity,
+      par_levels (
+        par_quantity
+      ),
+      recipes (
+        shelf_life
+      )
+    `)
+    .eq("is_active", true)
+    .eq("par_levels.day_of_week", dayOfWeek);
+
+  if (menuError) throw menuError;
+
+  // Get event and holiday overrides for the prep date
+  const { data: overrideData, error: overrideError } = await supabase
+    .from("par_overrides")
+    .select("id, label, menu_item_id, station, multiplier, par_quantity")
+    .eq("override_date", prepDate);
+
+  if (overrideError) throw overrideError;
+
+  const overrides: ParOverride[] = overrideData || [];
+
+  // Get the sales data the estimate is based on
+  const { data: salesData, error: salesError } = await supabase
+    .from("sales_data")
+    .select("menu_item_id, quantity_sold")
+    .eq("sales_date", salesDate);
+
+  if (salesError) throw salesError;
+
+  // Get the modifiers sold that day
+  const { data: modifierSalesData, error: modifierSalesError } = await supabase
+    .from("modifier_sales")
+    .select("modifier_id, quantity_sold")
+    .eq("sales_date", salesDate);
+
+  if (modifierSalesError) throw modifierSalesError;
+
+  // Get the closing on-hand counts taken the night before
+  const { data: countData, error: countError } = await supabase
+    .from("on_hand_counts")
+    .select("menu_item_id, quantity")
+    .eq("count_date", countDate);
+
+  if (countError) throw countError;
+
+  // Get the previous day's tasks to see what came up short. Shortfalls are reported
+  // rather than added on: a count or the prepped stock already reflects them
+  const shortfallMap = new Map<string, number>();
+  if (countDate < options.today) {
+    const { data: previousTasks, error: previousError } = await supabase
+      .from("prep_list_items")
+      .select("menu_item_id, component_id, quantity_needed, quantity_produced, status, prep_lists!inner(prep_date)")
+      .eq("prep_lists.prep_date", countDate);
+
+    if (previousError) throw previousError;
+
+    previousTasks?.forEach((task) => {
+      const shortfall = getShortfall(task);
+      const targetId = task.menu_item_id || task.component_id;
+      if (shortfall > 0 && targetId) shortfallMap.set(targetId, shortfall);
+    });
+  }
+
+  const salesMap = new Map(salesData?.map((s) => [s.menu_item_id, s.quantity_sold]) || []);
+  const onHandMap = new Map(countData?.map((c) => [c.menu_item_id, c.quantity]) || []);
+  const modifierSoldMap = new Map(modifierSalesData?.map((m) => [m.modifier_id, m.quantity_sold]) || []);
+  const modifierById = new Map(options.modifiers.map((m) => [m.id, m]));
+
+  // Modifiers mapped to a dish count as sales of it
+  options.modifiers.forEach((modifier) => {
+    const sold = modifierSoldMap.get(modifier.id);
+    if (sold === undefined || !modifier.menu_item_id) return;
+    salesMap.set(modifier.menu_item_id, (salesMap.get(modifier.menu_item_id) || 0) + getModifierUsage(modifier, sold));
+  });
+
+  // Get trailing sales history for the forecast. Modifiers mapped to a dish join
+  // its history; those mapped to a component are forecast on their own
+  const historyMap = new Map<string, SalesPoint[]>();
+  const modifierHistoryMap = new Map<string, SalesPoint[]>();
+  if (options.forecastWeeks) {
+    const historyStart = addDays(prepDate, -7 * options.forecastWeeks);
+    const historyData = await fetchAllRows((from, to) =>
+      supabase
+        .from("sales_data")
+        .select("menu_item_id, sales_date, quantity_sold")
+        .gte("sales_date", historyStart)
+        .lt("sales_date", prepDate)
+        .order("id")
+        .range(from, to)
+    );
+
+    historyData.forEach((row) => addSalesPoint(historyMap, row.menu_item_id, row.sales_date, row.quantity_sold));
+
+    const modifierHistoryData = await fetchAllRows((from, to) =>
+      supabase
+        .from("modifier_sales")
+        .select("modifier_id, sales_date, quantity_sold")
+        .gte("sales_date", historyStart)
+        .lt("sales_date", prepDate)
+        .order("id")
+        .range(from, to)
+    );
+
+    modifierHistoryData.forEach((row) => {
+      const modifier = modifierById.get(row.modifier_id);
+      if (modifier?.menu_item_id) {
+        addSalesPoint(historyMap, modifier.menu_item_id, row.sales_date, getModifierUsage(modifier, row.quantity_sold));
+      } else if (modifier) {
+        addSalesPoint(modifierHistoryMap, modifier.id, row.sales_date, row.quantity_sold);
+      }
+    });
+  }
+
+  // Items need a weekday par or an absolute override for the date to be prepped
+  const parItems = (menuItems || []).flatMap((item) => {
+    const weekdayPar = (item.par_levels as { par_quantity: number }[])?.[0]?.par_quantity ?? null;
+    const { par, override } = resolvePar(weekdayPar ?? 0, item, overrides);
+    if (weekdayPar === null && override?.par_quantity == null) return [];
+    return [{ ...item, weekdayPar, par, override }];
+  });
+
+  const componentDishIds = getComponentDishIds(options.componentUsages, options.components);
+  const stockInDate = (matches: (lot: StockRow) => boolean) =>
+    getInDateQuantity(options.stock.filter(matches), prepDate);
+
+  // Stock to use first or throw out on the morning of the prep date
+  const stockFlags: FlaggedStock[] = options.stock.flatMap((lot) => {
+    const flag = getStockFlag(lot, prepDate);
+    if (!flag || lot.prepped_on >= prepDate) return [];
+    return [{
+      id: lot.id,
+      name: lot.name,
+      station: lot.station,
+      unit: lot.unit,
+      quantity_remaining: lot.quantity_remaining,
+      prepped_on: lot.prepped_on,
+      expires_on: getLotUseBy(lot),
+      flag,
+    }];
+  });
+
+  // Calculate prep needs: Par - On Hand when a closing count exists,
+  // otherwise fall back to the forecast (when enabled) or prepping what was sold.
+  // Without a count, an absolute override is prepped up to its par and an
+  // override multiplier scales the estimate for the event.
+  const calculatedItems: PreviewItem[] = parItems.map((item) => {
+    const onHand = onHandMap.get(item.id);
+    const sold = salesMap.get(item.id);
+    const forecast = options.forecastWeeks
+      ? forecastSales(historyMap.get(item.id) || [], prepDate, { weeks: options.forecastWeeks })
+      : null;
+    const estimateMultiplier = item.override?.multiplier ?? 1;
+
+    // A count already includes prepped stock; estimates don't, so still-good
+    // stock is taken off them
+    const inDate = onHand === undefined ? stockInDate((lot) => lot.menu_item_id === item.id) : 0;
+
+    let quantityNeeded: number;
+    let method: CalculationMethod;
+    if (onHand !== undefined) {
+      quantityNeeded = Math.max(0, item.par - onHand);
+      method = "par_minus_on_hand";
+    } else if (item.override?.par_quantity != null) {
+      quantityNeeded = Math.max(0, Math.ceil(item.par - inDate));
+      method = "par_override";
+    } else if (forecast) {
+      quantityNeeded = Math.max(0, Math.ceil(forecast.expected * estimateMultiplier - inDate));
+      method = "forecast";
+    } else {
+      quantityNeeded = Math.max(0, Math.ceil(Math.max(0, sold || 0) * estimateMultiplier - inDate));
+      method = "sales";
+    }
+    const shelfLife = (item.recipes as { shelf_life: string | null } | null)?.shelf_life;
+
+    // Dishes broken into components are prepped through those instead,
+    // so only whole dishes round up to their own batches
+    const preppedAsComponents = componentDishIds.has(item.id);
+    const batched = preppedAsComponents
+      ? null
+      : roundToBatches(quantityNeeded, item.unit, item, options.units);
+
+    return {
+      menu_item_id: item.id,
+      name: item.name,
+      station: item.station,
+      par_quantity: item.par,
+      weekday_par_quantity: item.weekdayPar,
+      override_label: item.override?.label ?? null,
+      on_hand_quantity: onHand ?? null,
+      forecast_quantity: forecast?.expected ?? null,
+      sold_quantity: sold ?? null,
+      in_date_quantity: inDate > 0 ? round2(inDate) : null,
+      shortfall_quantity: shortfallMap.get(item.id) ?? null,
+      raw_quantity: quantityNeeded,
+      quantity_needed: batched?.quantity ?? quantityNeeded,
+      batch_count: batched?.batch_count ?? null,
+      batch_container: batched?.batch_container ?? null,
+      container_quantity: batched?.container_quantity ?? null,
+      calculation_method: method,
+      expires_on: getUseByDate(prepDate, parseShelfLifeDays(shelfLife)),
+      labor_minutes: batched ? estimateLaborMinutes(options.laborRates.get(item.id) ?? null, batched.quantity) : null,
+      sub_recipes: batched ? getSubRecipeNeeds(item.recipe_id, batched.quantity, item.unit, options) : [],
+      prepped_as_components: preppedAsComponents,
+    };
+  });
+
+  // Modifiers mapped to a component add what they're expected to use: the
+  // forecast when there is one, otherwise what sold, scaled like a dish estimate
+  const modifierNeeds: ModifierNeed[] = options.modifiers.flatMap((modifier) => {
+    const component = modifier.component_id ? options.components.get(modifier.component_id) : undefined;
+    if (!component) return [];
+    const forecast = options.forecastWeeks
+      ? forecastSales(modifierHistoryMap.get(modifier.id) || [], prepDate, { weeks: options.forecastWeeks })
+      : null;
+    const multiplier = findOverride(overrides, component)?.multiplier ?? 1;
+    const count = Math.ceil((forecast?.expected ?? modifierSoldMap.get(modifier.id) ?? 0) * multiplier);
+    return count > 0
+      ? [{ component_id: component.id, name: modifier.name, count, quantity_per_unit: modifier.quantity_per_unit }]
+      : [];
+  });
+
+  // Total the components the dishes and modifiers need, one task per component per station
+  const componentTasks: ComponentTask[] = aggregateComponentNeeds(
+    calculatedItems.filter((item) => item.prepped_as_components),
+    options.componentUsages,
+    options.components,
+    modifierNeeds
+  ).map(({ component, quantity_needed, source_items }) => {
+    const inDate = stockInDate((lot) => lot.component_id === component.id);
+    const batched = roundToBatches(quantity_needed - inDate, component.unit, component, options.units);
+    return {
+      component_id: component.id,
+      name: component.name,
+      station: component.station,
+      unit: component.unit,
+      in_date_quantity: inDate > 0 ? round2(inDate) : null,
+      shortfall_quantity: shortfallMap.get(component.id) ?? null,
+      raw_quantity: batched.raw_quantity,
+      quantity_needed: batched.quantity,
+      batch_count: batched.batch_count,
+      batch_container: batched.batch_container,
+      container_quantity: batched.container_quantity,
+      source_items,
+      expires_on: getUseByDate(prepDate, component.shelf_life_days),
+      labor_minutes: estimateLaborMinutes(options.laborRates.get(component.id) ?? null, batched.quantity),
+      sub_recipes: getSubRecipeNeeds(component.recipe_id, batched.quantity, component.unit, options),
+    };
+  });
+
+  const prepItems = calculatedItems.filter((item) => item.quantity_needed > 0 && !item.prepped_as_components);
+  const summary = {
+    prepDate,
+    dayOfWeek,
+    itemCount: prepItems.length + componentTasks.length,
+    countedCount: prepItems.filter((item) => item.calculation_method === "par_minus_on_hand").length,
+    forecastCount: prepItems.filter((item) => item.calculation_method === "forecast").length,
+    parOverrideCount: prepItems.filter((item) => item.calculation_method === "par_override").length,
+    salesCount: prepItems.filter((item) => item.calculation_method === "sales").length,
+    shortfallCount: shortfallMap.size,
+    overrideCount: calculatedItems.filter((item) => item.override_label !== null).length,
+    componentCount: componentTasks.length,
+    subRecipes: totalSubRecipes([...prepItems, ...componentTasks]),
+    labor: totalLaborByStation([...prepItems, ...componentTasks]),
+    stockFlags,
+  };
+
+  if (options.preview) {
+    return { ...summary, items: calculatedItems, components: componentTasks };
+  }
+
+  // Create or get the prep list for this date
+  const { data: existingList } = await supabase
+    .from("prep_lists")
+    .select("id")
+    .eq("prep_date", prepDate)
+    .maybeSingle();
+
+  let prepListId: string;
+  // Tasks already on the list for the date, by the dish or component they prep
+  const existingTasks = new Map<string, { id: string; status: string }>();
+
+  if (existingList) {
+    prepListId = existingList.id;
+
+    const { data: existingItems, error: existingError } = await supabase
+      .from("prep_list_items")
+      .select("id, menu_item_id, component_id, status")
+      .eq("prep_list_id", prepListId);
+
+    if (existingError) throw existingError;
+
+    existingItems?.forEach((task) => {
+      const targetId = task.menu_item_id || task.component_id;
+      if (targetId) existingTasks.set(targetId, { id: task.id, status: task.status });
+    });
+  } else {
+    const { data: newList, error: createError } = await supabase
+      .from("prep_lists")
+      .insert({ prep_date: prepDate })
+      .select("id")
+      .single();
+
+    if (createError) throw createError;
+    prepListId = newList.id;
+  }
+
+  // Finished dishes, then the components the rest break into
+  const rows = [
+    ...prepItems.map((item) => ({
+      prep_list_id: prepListId,
+      menu_item_id: item.menu_item_id,
+      component_id: null,
+      raw_quantity: item.raw_quantity,
+      quantity_needed: item.quantity_needed,
+      batch_count: item.batch_count,
+      batch_container: item.batch_container,
+      container_quantity: item.container_quantity,
+      in_date_quantity: item.in_date_quantity,
+      expires_on: item.expires_on,
+      estimated_minutes: item.labor_minutes,
+      calculation_method: item.calculation_method,
+      par_quantity: item.par_quantity,
+      on_hand_quantity: item.on_hand_quantity,
+      forecast_quantity: item.forecast_quantity,
+      sub_recipe_batches: item.sub_recipes.length > 0 ? item.sub_recipes : null,
+    })),
+    ...componentTasks.map((task) => ({
+      prep_list_id: prepListId,
+      menu_item_id: null,
+      component_id: task.component_id,
+      raw_quantity: task.raw_quantity,
+      quantity_needed: task.quantity_needed,
+      batch_count: task.batch_count,
+      batch_container: task.batch_container,
+      container_quantity: task.container_quantity,
+      in_date_quantity: task.in_date_quantity,
+      expires_on: task.expires_on,
+      estimated_minutes: task.labor_minutes,
+      calculation_method: "component_rollup" as const,
+      source_items: task.source_items,
+      sub_recipe_batches: task.sub_recipes.length > 0 ? task.sub_recipes : null,
+    })),
+  ];
+
+  // Regenerating a list mid-shift keeps the work on it: tasks a cook has
+  // started or finished are left as they are, open tasks are updated in place
+  // so claims stay, and only open tasks no longer needed are removed
+  const targetOf = (row: (typeof rows)[number]) => (row.menu_item_id || row.component_id) as string;
+  const newRows = rows.filter((row) => !existingTasks.has(targetOf(row)));
+  const updatedRows = rows.flatMap((row) => {
+    const task = existingTasks.get(targetOf(row));
+    return task?.status === "open" ? [{ ...row, id: task.id }] : [];
+  });
+  const neededIds = new Set(rows.map(targetOf));
+  const staleIds = Array.from(existingTasks.entries())
+    .filter(([targetId, task]) => task.status === "open" && !neededIds.has(targetId))
+    .map(([, task]) => task.id);
+
+  if (staleIds.length > 0) {
+    const { error: deleteError } = await supabase.from("prep_list_items").delete().in("id", staleIds);
+    if (deleteError) throw deleteError;
+  }
+
+  if (updatedRows.length > 0) {
+    const { error: updateError } = await supabase.from("prep_list_items").upsert(updatedRows);
+    if (updateError) throw updateError;
+  }
+
+  if (newRows.length > 0) {
+    const { error: insertError } = await supabase
+      .from("prep_list_items")
+      .insert(newRows.map((row) => ({ ...row, status: "open" as const })));
+
+    if (insertError) throw insertError;
+  }
+
+  return summary;
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { salesDate } = await req.json();
-    
+    const {
+      targetDate,
+      days = 1,
+      salesDate,
+      useForecast = false,
+      forecastWeeks = DEFAULT_FORECAST_WEEKS,
+      preview = false,
+      explodeSubRecipes: expandSubRecipes = false,
+    }: GenerateRequest = await req.json();
+
+    if (targetDate !== undefined && !isValidDateString(targetDate)) {
+      return errorResponse("targetDate must be a YYYY-MM-DD date", 400);
+    }
+    if (salesDate !== undefined && !isValidDateString(salesDate)) {
+      return errorResponse("salesDate must be a YYYY-MM-DD date", 400);
+    }
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return errorResponse(`days must be between 1 and ${MAX_DAYS}`, 400);
+    }
+    if (!Number.isInteger(forecastWeeks) || forecastWeeks < 1 || forecastWeeks > MAX_FORECAST_WEEKS) {
+      return errorResponse(`forecastWeeks must be between 1 and ${MAX_FORECAST_WEEKS}`, 400);
+    }
+
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const today = new Date();
-    const todayStr = today.toISOString().split("T")[0];
-    const dayOfWeek = today.getDay();
+    const timeZone = Deno.env.get("KITCHEN_TIMEZONE") || DEFAULT_KITCHEN_TIMEZONE;
+    const today = getKitchenDate(timeZone);
+    const startDate = targetDate || today;
+    const units = createUnits(parsePanSizes(Deno.env.get("PAN_SIZES")));
+
+    // Load every recipe once so sub-recipe references can be followed
+    let recipes: Map<string, RecipeNode> | null = null;
+    if (expandSubRecipes) {
+      const { data: recipeData, error: recipeError } = await supabase
+        .from("recipes")
+        .select("id, name, ingredients, yield_amount, yield_measure, recipe_cost");
 
-    // Get all active menu items with their par levels for today
-    const { data: menuItems, error: menuError } = await supabase
-      .from("menu_items")
+      if (recipeError) throw recipeError;
+
+      recipes = new Map(
+        (recipeData || []).map((r) => [
+          r.id,
+          { ...r, ingredients: parseIngredients(r.ingredients), recipe_cost: r.recipe_cost ?? null },
+        ])
+      );
+    }
+
+    // Load the component breakdown of each dish
+    const { data: usageData, error: usageError } = await supabase
+      .from("menu_item_components")
+      .select(`
+        menu_item_id,
+        component_id,
+        quantity_per_portion,
+        prep_components (
+          id,
+          name,
+          station,
+          unit,
+          recipe_id,
+          is_active,
+          min_batch,
+          batch_increment,
+          batch_container,
+          batch_container_quantity,
+          recipes (
+            shelf_life
+          )
+        )
+      `);
+
+    if (usageError) throw usageError;
+
+    const components = new Map<string, BatchedComponent>();
+    // Keep active components, with their shelf life in days
+    const addComponent = (component: ComponentRow | null): boolean => {
+      if (!component?.is_active) return false;
+      components.set(component.id, {
+        ...component,
+        shelf_life_days: parseShelfLifeDays(component.recipes?.shelf_life),
+      });
+      return true;
+    };
+
+    const componentUsages: ComponentUsage[] = [];
+    (usageData || []).forEach((row) => {
+      if (!addComponent(row.prep_components as ComponentRow | null)) return;
+      componentUsages.push({
+        menu_item_id: row.menu_item_id,
+        component_id: row.component_id,
+        quantity_per_portion: Number(row.quantity_per_portion),
+      });
+    });
+
+    // Load the POS modifier mappings, with components no dish uses
+    const { data: modifierData, error: modifierError } = await supabase
+      .from("sales_modifiers")
       .select(`
         id,
         name,
-        par_levels!inner (
-          par_quantity
+        menu_item_id,
+        component_id,
+        quantity_per_unit,
+        prep_components (
+          id,
+          name,
+          station,
+          unit,
+          recipe_id,
+          is_active,
+          min_batch,
+          batch_increment,
+          batch_container,
+          batch_container_quantity,
+          recipes (
+            shelf_life
+          )
         )
       `)
-      .eq("is_active", true)
-      .eq("par_levels.day_of_week", dayOfWeek);
-
-    if (menuError) throw menuError;
-
-    // Get yesterday's sales data
-    const { data: salesData, error: salesError } = await supabase
-      .from("sales_data")
-      .select("menu_item_id, quantity_sold")
-      .eq("sales_date", salesDate || todayStr);
-
-    if (salesError) throw salesError;
-
-    const salesMap = new Map(salesData?.map((s) => [s.menu_item_id, s.quantity_sold]) || []);
-
-    // Calculate prep needs: Par - (Previous Par - Sales) = Par - Previous Par + Sales
-    // Simplified: If we sold X, we need to prep X to maintain par
-    const prepItems = menuItems
-      ?.map((item) => {
-        const parLevel = (item.par_levels as { par_quantity: number }[])?.[0]?.par_quantity || 0;
-        const sold = salesMap.get(item.id) || 0;
-        // Simple calculation: prep what was sold to get back to par
-        const needed = Math.max(0, sold);
-        return {
-          menu_item_id: item.id,
-          quantity_needed: needed,
-        };
-      })
-      .filter((item) => item.quantity_needed > 0) || [];
-
-    // Create or get today's prep list
-    const { data: existingList } = await supabase
-      .from("prep_lists")
-      .select("id")
-      .eq("prep_date", todayStr)
-      .maybeSingle();
-
-    let prepListId: string;
-
-    if (existingList) {
-      prepListId = existingList.id;
-      // Clear existing items
-      await supabase
-        .from("prep_list_items")
-        .delete()
-        .eq("prep_list_id", prepListId);
-    } else {
-      const { data: newList, error: createError } = await supabase
-        .from("prep_lists")
-        .insert({ prep_date: todayStr })
-        .select("id")
-        .single();
-
-      if (createError) throw createError;
-      prepListId = newList.id;
-    }
+      .eq("is_active", true);
 
-    // Insert prep items
-    if (prepItems.length > 0) {
-      const { error: insertError } = await supabase
-        .from("prep_list_items")
-        .insert(
-          prepItems.map((item) => ({
-            prep_list_id: prepListId,
-            menu_item_id: item.menu_item_id,
-            quantity_needed: item.quantity_needed,
-            status: "open",
-          }))
-        );
-
-      if (insertError) throw insertError;
-    }
+    if (modifierError) throw modifierError;
 
-    return new Response(
-      JSON.stringify({ success: true, itemCount: prepItems.length }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    const modifiers: SalesModifier[] = (modifierData || []).flatMap((row) => {
+      if (row.component_id && !addComponent(row.prep_components as ComponentRow | null)) return [];
+      return [{
+        id: row.id,
+        name: row.name,
+        menu_item_id: row.menu_item_id,
+        component_id: row.component_id,
+        quantity_per_unit: Number(row.quantity_per_unit),
+      }];
+    });
+
+    // Load prepped product that hasn't been used up or thrown out
+    const { data: stockData, error: stockError } = await supabase
+      .from("prepped_product")
+      .select(`
+        id,
+        menu_item_id,
+        component_id,
+        prepped_on,
+        expires_on,
+        quantity_remaining,
+        menu_items (
+          name,
+          station,
+          unit
+        ),
+        prep_components (
+          name,
+          station,
+          unit
+        )
+      `)
+      .is("used_at", null)
+      .is("discarded_at", null)
+      .gt("quantity_remaining", 0);
+
+    if (stockError) throw stockError;
+
+    const stock: StockRow[] = (stockData || []).map((row) => {
+      const target = (row.menu_items || row.prep_components) as { name: string; station: string; unit: string } | null;
+      return {
+        id: row.id,
+        menu_item_id: row.menu_item_id,
+        component_id: row.component_id,
+        prepped_on: row.prepped_on,
+        expires_on: row.expires_on,
+        quantity_remaining: Number(row.quantity_remaining),
+        name: target?.name || "Unknown",
+        station: target?.station || "line",
+        unit: target?.unit || "portions",
+      };
+    });
+
+    // Load recent timed tasks, newest first, to estimate labor from
+    const timingData = await fetchAllRows((from, to) =>
+      supabase
+        .from("prep_task_durations")
+        .select("menu_item_id, component_id, quantity, active_seconds")
+        .gte("prep_date", addDays(today, -LABOR_HISTORY_DAYS))
+        .gt("active_seconds", 0)
+        .order("completed_at", { ascending: false })
+        .order("id")
+        .range(from, to)
     );
+
+    const timings = new Map<string, TaskTiming[]>();
+    timingData.forEach((row) => {
+      const targetId = row.menu_item_id || row.component_id;
+      if (!targetId) return;
+      const targetTimings = timings.get(targetId) || [];
+      if (targetTimings.length >= LABOR_HISTORY_TASKS) return;
+      targetTimings.push({ quantity: Number(row.quantity), active_seconds: row.active_seconds });
+      timings.set(targetId, targetTimings);
+    });
+
+    const laborRates = new Map<string, number>();
+    timings.forEach((targetTimings, targetId) => {
+      const rate = getSecondsPerUnit(targetTimings);
+      if (rate !== null) laborRates.set(targetId, rate);
+    });
+
+    const lists: GeneratedList[] = [];
+    for (let i = 0; i < days; i++) {
+      const prepDate = addDays(startDate, i);
+      lists.push(
+        await generateForDate(supabase, prepDate, salesDate || addDays(prepDate, -1), {
+          forecastWeeks: useForecast ? forecastWeeks : null,
+          preview,
+          recipes,
+          units,
+          components,
+          componentUsages,
+          modifiers,
+          stock,
+          today,
+          laborRates,
+        })
+      );
+    }
+
+    return jsonResponse({
+      success: true,
+      preview,
+      prepDate: startDate,
+      itemCount: lists.reduce((sum, list) => sum + list.itemCount, 0),
+      countedCount: lists.reduce((sum, list) => sum + list.countedCount, 0),
+      forecastCount: lists.reduce((sum, list) => sum + list.forecastCount, 0),
+      parOverrideCount: lists.reduce((sum, list) => sum + list.parOverrideCount, 0),
+      salesCount: lists.reduce((sum, list) => sum + list.salesCount, 0),
+      overrideCount: lists.reduce((sum, list) => sum + list.overrideCount, 0),
+      componentCount: lists.reduce((sum, list) => sum + list.componentCount, 0),
+      shortfallCount: lists.reduce((sum, list) => sum + list.shortfallCount, 0),
+      lists,
+    });
   } catch (error) {
     console.error("Generate prep list error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
   }
 });
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders, jsonResponse, errorResponse } from "../_shared/utils.ts";
+import { parseSalesReportCsv } from "../_shared/salesReport.ts";
+import { applyIgnoreRules, type IgnoreRule } from "../_shared/ignoreRules.ts";
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -7,13 +10,38 @@ serve(async (req) => {
   }
 
   try {
-    const { fileContent, fileName, menuItems, isBase64 } = await req.json();
+    const { fileContent, fileName, menuItems, aliases = [], isBase64 } = await req.json();
+
+    // Load the admin's ignore rules; lines matching one are returned apart from the sales
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { data: ruleData, error: ruleError } = await supabase
+      .from("sales_ignore_rules")
+      .select("id, pattern, match_type")
+      .eq("is_active", true)
+      .order("created_at");
+
+    if (ruleError) throw ruleError;
+
+    const ignoreRules: IgnoreRule[] = ruleData || [];
+
+    // CSV exports of the Item Sales Report have a fixed layout, so read those
+    // directly and only ask the AI about PDFs and layouts we don't recognize
+    if (!isBase64) {
+      const items = parseSalesReportCsv(fileContent, menuItems);
+      if (items) return jsonResponse(applyIgnoreRules(items, ignoreRules));
+    }
+
     const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
 
     if (!GEMINI_API_KEY) {
       throw new Error("GEMINI_API_KEY is not configured");
     }
 
+    // POS names the admin has already matched to a menu item by hand
+    const knownAliases = (aliases as { alias: string; menu_item: string }[])
+      .map((a) => `- "${a.alias}" is "${a.menu_item}"`)
+      .join("\n");
+
     const systemPrompt = `You are a sales data parser for The Club at Old Hawthorne kitchen.
 
 DOCUMENT FORMAT:
@@ -28,12 +56,11 @@ EXTRACTION RULES:
 ROWS TO SKIP (do NOT include these):
 - "Item Category Totals:" rows
 - "Totals:" (final summary row)
-- Modifiers/add-ons: "ADD SALMON", "ADD SHRIMP", "ADD STEAK", "GRILLED SALMON", "GRILLED SHRIMP"
-- Service instructions: "SALAD OUT FIRST", "SALAD WITH MEAL"
-- Generic items: "Open Food", "You Choose", "Birthday Dessert"
-- Size modifiers when they appear alone
 - Category headers without quantities
 
+Include every other line with units sold, including modifiers, add-ons and service
+instructions such as "ADD SALMON" or "SALAD OUT FIRST". They are filtered out afterwards.
+
 ITEM NAME MATCHING:
 Try to match parsed item names to the available menu items in the system.
 When matching:
@@ -45,7 +72,10 @@ When matching:
 - If no exact match exists, return the original item name from the report
 
 Available menu items in the system: ${menuItems.join(", ")}
-
+${knownAliases ? `
+KNOWN POS NAMES (always use these mappings):
+${knownAliases}
+` : ""}
 Return a JSON object with an "items" array. Each item should have:
 - "name": The menu item name (try to match exactly to available menu items when possible)
 - "quantity": The number sold (as an integer)
@@ -135,7 +165,7 @@ Return a JSON object with an "items" array. Each item should have:
       parsed = { items: [] };
     }
 
-    return jsonResponse(parsed);
+    return jsonResponse(applyIgnoreRules(parsed.items || [], ignoreRules));
   } catch (error) {
     console.error("Parse sales error:", error);
     return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
@@ -0,0 +1,56 @@
+-- Create prep calculation method enum
+CREATE TYPE public.prep_calculation_method AS ENUM ('par_minus_on_hand', 'sales');
+
+-- Create on_hand_counts table (closing stock counts per item)
+CREATE TABLE public.on_hand_counts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE NOT NULL,
+    count_date DATE NOT NULL,
+    quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (menu_item_id, count_date)
+);
+
+-- Enable RLS on on_hand_counts
+ALTER TABLE public.on_hand_counts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read on-hand counts
+CREATE POLICY "Anyone can read on-hand counts"
+ON public.on_hand_counts
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Policy: Anyone can record on-hand counts (closing cook uses the staff tablet)
+CREATE POLICY "Anyone can insert on-hand counts"
+ON public.on_hand_counts
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can update on-hand counts"
+ON public.on_hand_counts
+FOR UPDATE
+TO anon, authenticated
+USING (true)
+WITH CHECK (true);
+
+-- Policy: Only admins can delete on-hand counts
+CREATE POLICY "Admins can manage on-hand counts"
+ON public.on_hand_counts
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_on_hand_counts_updated_at
+    BEFORE UPDATE ON public.on_hand_counts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record how each prep quantity was calculated
+ALTER TABLE public.prep_list_items
+ADD COLUMN calculation_method prep_calculation_method NOT NULL DEFAULT 'sales',
+ADD COLUMN par_quantity INTEGER,
+ADD COLUMN on_hand_quantity INTEGER;
@@ -0,0 +1,6 @@
+-- Allow prep quantities to come from the sales forecast
+ALTER TYPE public.prep_calculation_method ADD VALUE IF NOT EXISTS 'forecast';
+
+-- Record the forecast alongside par and on-hand for each prep item
+ALTER TABLE public.prep_list_items
+ADD COLUMN forecast_quantity NUMERIC;
@@ -0,0 +1,42 @@
+-- Create par_overrides table (date-specific pars for events, holidays and banquets)
+-- A rule targets one menu item, one station, or every item when both are null,
+-- and either scales the weekday par by a multiplier or replaces it outright.
+CREATE TABLE public.par_overrides (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    override_date DATE NOT NULL,
+    label TEXT NOT NULL,
+    menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    station kitchen_station,
+    multiplier NUMERIC(6, 2) CHECK (multiplier > 0),
+    par_quantity INTEGER CHECK (par_quantity >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (menu_item_id IS NULL OR station IS NULL),
+    CHECK ((multiplier IS NULL) <> (par_quantity IS NULL)),
+    UNIQUE NULLS NOT DISTINCT (override_date, menu_item_id, station)
+);
+
+CREATE INDEX idx_par_overrides_date ON public.par_overrides (override_date);
+
+-- Enable RLS on par_overrides
+ALTER TABLE public.par_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read par overrides
+CREATE POLICY "Anyone can read par overrides"
+ON public.par_overrides
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Policy: Only admins can modify par overrides
+CREATE POLICY "Admins can manage par overrides"
+ON public.par_overrides
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_par_overrides_updated_at
+    BEFORE UPDATE ON public.par_overrides
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,4 @@
+-- Sub-recipe batches each prep item needs, when the generator expands sub-recipes
+-- e.g. [{"recipe_id": "...", "name": "House Aioli", "batches": 1.5}]
+ALTER TABLE public.prep_list_items
+ADD COLUMN sub_recipe_batches JSONB;
@@ -0,0 +1,79 @@
+-- Create prep_components table (what the line actually preps: bacon, sliced tomato, chicken breasts)
+CREATE TABLE public.prep_components (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    station kitchen_station NOT NULL,
+    unit TEXT NOT NULL DEFAULT 'portions',
+    recipe_id UUID REFERENCES public.recipes(id) ON DELETE SET NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create menu_item_components table (how much of each component one portion of a dish uses)
+CREATE TABLE public.menu_item_components (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    component_id UUID NOT NULL REFERENCES public.prep_components(id) ON DELETE CASCADE,
+    quantity_per_portion NUMERIC(10, 3) NOT NULL CHECK (quantity_per_portion > 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (menu_item_id, component_id)
+);
+
+CREATE INDEX idx_menu_item_components_component ON public.menu_item_components (component_id);
+
+-- Enable RLS on both tables
+ALTER TABLE public.prep_components ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_item_components ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read prep components
+CREATE POLICY "Anyone can read prep components"
+ON public.prep_components
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Policy: Only admins can modify prep components
+CREATE POLICY "Admins can manage prep components"
+ON public.prep_components
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Policy: Anyone can read menu item components
+CREATE POLICY "Anyone can read menu item components"
+ON public.menu_item_components
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Policy: Only admins can modify menu item components
+CREATE POLICY "Admins can manage menu item components"
+ON public.menu_item_components
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_prep_components_updated_at
+    BEFORE UPDATE ON public.prep_components
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_menu_item_components_updated_at
+    BEFORE UPDATE ON public.menu_item_components
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Component tasks are totalled from the dishes that use them
+ALTER TYPE public.prep_calculation_method ADD VALUE IF NOT EXISTS 'component_rollup';
+
+-- A prep task is either a finished dish or a component; component amounts can be fractional (e.g. 2.5 lb)
+ALTER TABLE public.prep_list_items
+ALTER COLUMN menu_item_id DROP NOT NULL,
+ALTER COLUMN quantity_needed TYPE NUMERIC(10, 2),
+ADD COLUMN component_id UUID REFERENCES public.prep_components(id) ON DELETE CASCADE,
+ADD COLUMN source_items JSONB,
+ADD CONSTRAINT prep_list_items_target_check CHECK ((menu_item_id IS NULL) <> (component_id IS NULL));
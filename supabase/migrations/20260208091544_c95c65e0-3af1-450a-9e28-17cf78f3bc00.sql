@@ -0,0 +1,23 @@
+-- Batch settings for dishes and components: prep never goes below the minimum
+-- batch and otherwise rounds up to whole increments (e.g. sauces by the quart,
+-- proteins portioned in sixes). One batch fills batch_container_quantity of
+-- batch_container (e.g. 1.5 qt).
+ALTER TABLE public.menu_items
+ADD COLUMN min_batch NUMERIC(10, 2) CHECK (min_batch > 0),
+ADD COLUMN batch_increment NUMERIC(10, 2) CHECK (batch_increment > 0),
+ADD COLUMN batch_container TEXT,
+ADD COLUMN batch_container_quantity NUMERIC(10, 2) CHECK (batch_container_quantity > 0);
+
+ALTER TABLE public.prep_components
+ADD COLUMN min_batch NUMERIC(10, 2) CHECK (min_batch > 0),
+ADD COLUMN batch_increment NUMERIC(10, 2) CHECK (batch_increment > 0),
+ADD COLUMN batch_container TEXT,
+ADD COLUMN batch_container_quantity NUMERIC(10, 2) CHECK (batch_container_quantity > 0);
+
+-- Keep the raw need next to the rounded quantity the line is asked to prep,
+-- with the batches and the total container amount they come to
+ALTER TABLE public.prep_list_items
+ADD COLUMN raw_quantity NUMERIC(10, 2),
+ADD COLUMN batch_count NUMERIC(10, 2),
+ADD COLUMN batch_container TEXT,
+ADD COLUMN container_quantity NUMERIC(10, 2);
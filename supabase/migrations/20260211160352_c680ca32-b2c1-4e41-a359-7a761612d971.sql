@@ -0,0 +1,84 @@
+-- Use-by date for each prep task, from the recipe's shelf life
+ALTER TABLE public.prep_list_items
+ADD COLUMN expires_on DATE,
+ADD COLUMN in_date_quantity NUMERIC(10, 2);
+
+-- Create prepped_product table (prepped product still in the walk-in and when it must be used by)
+CREATE TABLE public.prepped_product (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    prep_list_item_id UUID UNIQUE REFERENCES public.prep_list_items(id) ON DELETE SET NULL,
+    menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    component_id UUID REFERENCES public.prep_components(id) ON DELETE CASCADE,
+    prepped_on DATE NOT NULL,
+    expires_on DATE,
+    quantity NUMERIC(10, 2) NOT NULL CHECK (quantity >= 0),
+    quantity_remaining NUMERIC(10, 2) NOT NULL CHECK (quantity_remaining >= 0),
+    used_at TIMESTAMP WITH TIME ZONE,
+    discarded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK ((menu_item_id IS NULL) <> (component_id IS NULL))
+);
+
+CREATE INDEX idx_prepped_product_open ON public.prepped_product (expires_on)
+WHERE used_at IS NULL AND discarded_at IS NULL;
+
+-- Enable RLS on prepped_product
+ALTER TABLE public.prepped_product ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read prepped product
+CREATE POLICY "Anyone can read prepped product"
+ON public.prepped_product
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Policy: Anyone can update prepped product (staff mark it used or discarded)
+CREATE POLICY "Anyone can update prepped product"
+ON public.prepped_product
+FOR UPDATE
+TO anon, authenticated
+USING (true)
+WITH CHECK (true);
+
+-- Policy: Only admins can insert/delete prepped product
+CREATE POLICY "Admins can manage prepped product"
+ON public.prepped_product
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_prepped_product_updated_at
+    BEFORE UPDATE ON public.prepped_product
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record prepped product when a task is marked done, and take it back if the
+-- task is reopened. Runs as definer because staff can only update task status.
+CREATE OR REPLACE FUNCTION public.sync_prepped_product()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+        INSERT INTO public.prepped_product (
+            prep_list_item_id, menu_item_id, component_id, prepped_on, expires_on, quantity, quantity_remaining
+        )
+        SELECT NEW.id, NEW.menu_item_id, NEW.component_id, pl.prep_date, NEW.expires_on,
+               NEW.quantity_needed, NEW.quantity_needed
+        FROM public.prep_lists pl
+        WHERE pl.id = NEW.prep_list_id
+        ON CONFLICT (prep_list_item_id) DO NOTHING;
+    ELSIF OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+        DELETE FROM public.prepped_product WHERE prep_list_item_id = NEW.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_prep_list_items_prepped_product
+    AFTER UPDATE OF status ON public.prep_list_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_prepped_product();
+
+-- Enable realtime for prepped_product so the use-first list stays current
+ALTER PUBLICATION supabase_realtime ADD TABLE public.prepped_product;
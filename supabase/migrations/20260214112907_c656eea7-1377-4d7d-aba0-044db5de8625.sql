@@ -0,0 +1,3 @@
+-- Allergens printed on prep labels, e.g. {dairy, egg, gluten}
+ALTER TABLE public.recipes
+ADD COLUMN allergens TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,3 @@
+-- Where the recipe lives in the kitchen's recipe book, printed on paper prep lists (e.g. "Binder 2, p. 14")
+ALTER TABLE public.recipes
+ADD COLUMN page_reference TEXT;
@@ -0,0 +1,38 @@
+-- Quantity the cook actually made, which can come up short of or over the quantity needed
+ALTER TABLE public.prep_list_items
+ADD COLUMN quantity_produced NUMERIC(10, 2) CHECK (quantity_produced >= 0);
+
+-- Record what was actually made as prepped product, falling back to the
+-- quantity needed when the cook didn't enter one, and keep it in step when
+-- the produced quantity is corrected after the task is done
+CREATE OR REPLACE FUNCTION public.sync_prepped_product()
+RETURNS TRIGGER AS $$
+DECLARE
+    produced NUMERIC(10, 2) := COALESCE(NEW.quantity_produced, NEW.quantity_needed);
+BEGIN
+    IF NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+        INSERT INTO public.prepped_product (
+            prep_list_item_id, menu_item_id, component_id, prepped_on, expires_on, quantity, quantity_remaining
+        )
+        SELECT NEW.id, NEW.menu_item_id, NEW.component_id, pl.prep_date, NEW.expires_on, produced, produced
+        FROM public.prep_lists pl
+        WHERE pl.id = NEW.prep_list_id
+        ON CONFLICT (prep_list_item_id) DO NOTHING;
+    ELSIF OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+        DELETE FROM public.prepped_product WHERE prep_list_item_id = NEW.id;
+    ELSIF NEW.status = 'completed' AND NEW.quantity_produced IS DISTINCT FROM OLD.quantity_produced THEN
+        UPDATE public.prepped_product
+        SET quantity_remaining = GREATEST(0, quantity_remaining + produced - quantity),
+            quantity = produced
+        WHERE prep_list_item_id = NEW.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER sync_prep_list_items_prepped_product ON public.prep_list_items;
+
+CREATE TRIGGER sync_prep_list_items_prepped_product
+    AFTER UPDATE OF status, quantity_produced ON public.prep_list_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_prepped_product();
@@ -0,0 +1,41 @@
+-- Create staff_members table (the kitchen's cook roster)
+CREATE TABLE public.staff_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    initials TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on staff_members
+ALTER TABLE public.staff_members ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read the roster (cooks pick themselves on the prep dashboard)
+CREATE POLICY "Anyone can read staff members"
+ON public.staff_members
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Policy: Only admins can manage the roster
+CREATE POLICY "Admins can manage staff members"
+ON public.staff_members
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_staff_members_updated_at
+    BEFORE UPDATE ON public.staff_members
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Who each prep task is assigned to, and who finished it and when
+ALTER TABLE public.prep_list_items
+ADD COLUMN assigned_to UUID REFERENCES public.staff_members(id) ON DELETE SET NULL,
+ADD COLUMN completed_by UUID REFERENCES public.staff_members(id) ON DELETE SET NULL,
+ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_prep_list_items_completed_by ON public.prep_list_items (completed_by, completed_at DESC)
+WHERE completed_by IS NOT NULL;
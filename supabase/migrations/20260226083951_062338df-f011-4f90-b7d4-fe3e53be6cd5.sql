@@ -0,0 +1,187 @@
+-- Staff PIN sign-in for the shared kitchen tablet. The tablet holds an
+-- anonymous Supabase session; entering a PIN links that session to a cook
+-- until the tablet locks or the session expires.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Create staff_pins table (hashed PINs, kept out of the readable roster)
+CREATE TABLE public.staff_pins (
+    staff_member_id UUID PRIMARY KEY REFERENCES public.staff_members(id) ON DELETE CASCADE,
+    pin_hash TEXT NOT NULL,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on staff_pins (PINs are set and checked through the functions below)
+ALTER TABLE public.staff_pins ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins can see which cooks have a PIN
+CREATE POLICY "Admins can read staff pins"
+ON public.staff_pins
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_staff_pins_updated_at
+    BEFORE UPDATE ON public.staff_pins
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create staff_sessions table (which cook is signed in on each device session)
+CREATE TABLE public.staff_sessions (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    staff_member_id UUID NOT NULL REFERENCES public.staff_members(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on staff_sessions (only reached through the functions below)
+ALTER TABLE public.staff_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Cook signed in on the current session, or null
+CREATE OR REPLACE FUNCTION public.current_staff_member()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.staff_member_id
+  FROM public.staff_sessions s
+  JOIN public.staff_members m ON m.id = s.staff_member_id
+  WHERE s.user_id = auth.uid()
+    AND s.expires_at > now()
+    AND m.is_active
+$$;
+
+-- Admins set a cook's 4-6 digit PIN
+CREATE OR REPLACE FUNCTION public.set_staff_pin(_staff_member_id UUID, _pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can set staff PINs';
+    END IF;
+    IF _pin !~ '^[0-9]{4,6}$' THEN
+        RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+    END IF;
+
+    INSERT INTO public.staff_pins (staff_member_id, pin_hash)
+    VALUES (_staff_member_id, crypt(_pin, gen_salt('bf')))
+    ON CONFLICT (staff_member_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash, failed_attempts = 0, locked_until = NULL;
+END;
+$$;
+
+-- Check a cook's PIN and sign them in on the current session. Five wrong
+-- PINs in a row lock the cook out for five minutes.
+CREATE OR REPLACE FUNCTION public.staff_sign_in(_staff_member_id UUID, _pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    stored public.staff_pins%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'A device session is required to sign in';
+    END IF;
+
+    SELECT p.* INTO stored
+    FROM public.staff_pins p
+    JOIN public.staff_members m ON m.id = p.staff_member_id
+    WHERE p.staff_member_id = _staff_member_id AND m.is_active
+    FOR UPDATE OF p;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+    IF stored.locked_until > now() THEN
+        RAISE EXCEPTION 'Too many wrong PINs. Try again in a few minutes.';
+    END IF;
+
+    IF stored.pin_hash <> crypt(_pin, stored.pin_hash) THEN
+        UPDATE public.staff_pins
+        SET failed_attempts = stored.failed_attempts + 1,
+            locked_until = CASE WHEN stored.failed_attempts + 1 >= 5 THEN now() + interval '5 minutes' END
+        WHERE staff_member_id = _staff_member_id;
+        RETURN false;
+    END IF;
+
+    UPDATE public.staff_pins
+    SET failed_attempts = 0, locked_until = NULL
+    WHERE staff_member_id = _staff_member_id;
+
+    INSERT INTO public.staff_sessions (user_id, staff_member_id, expires_at)
+    VALUES (auth.uid(), _staff_member_id, now() + interval '12 hours')
+    ON CONFLICT (user_id) DO UPDATE
+    SET staff_member_id = EXCLUDED.staff_member_id, expires_at = EXCLUDED.expires_at, created_at = now();
+
+    RETURN true;
+END;
+$$;
+
+-- Sign the cook out of the current session (the tablet locked)
+CREATE OR REPLACE FUNCTION public.staff_sign_out()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.staff_sessions WHERE user_id = auth.uid()
+$$;
+
+-- Staff updates now need a signed-in cook instead of any client
+DROP POLICY "Anyone can update prep list item status" ON public.prep_list_items;
+
+CREATE POLICY "Signed-in staff can update prep list items"
+ON public.prep_list_items
+FOR UPDATE
+TO authenticated
+USING (public.current_staff_member() IS NOT NULL)
+WITH CHECK (public.current_staff_member() IS NOT NULL);
+
+DROP POLICY "Anyone can update prepped product" ON public.prepped_product;
+
+CREATE POLICY "Signed-in staff can update prepped product"
+ON public.prepped_product
+FOR UPDATE
+TO authenticated
+USING (public.current_staff_member() IS NOT NULL)
+WITH CHECK (public.current_staff_member() IS NOT NULL);
+
+-- Attribute status changes to the signed-in cook: starting a task claims it,
+-- finishing it records who and when, and reopening clears the finish
+CREATE OR REPLACE FUNCTION public.attribute_prep_list_item_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    staff UUID := public.current_staff_member();
+BEGIN
+    IF NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'completed' THEN
+        NEW.completed_by := COALESCE(staff, NEW.completed_by);
+        NEW.completed_at := now();
+    ELSE
+        NEW.completed_by := NULL;
+        NEW.completed_at := NULL;
+        IF NEW.status = 'in_progress' AND staff IS NOT NULL THEN
+            NEW.assigned_to := staff;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER attribute_prep_list_items_status
+    BEFORE UPDATE OF status ON public.prep_list_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.attribute_prep_list_item_status();
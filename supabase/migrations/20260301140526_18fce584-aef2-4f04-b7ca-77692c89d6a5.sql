@@ -0,0 +1,80 @@
+-- Create prep event type enum
+CREATE TYPE public.prep_event_type AS ENUM ('status', 'quantity_needed', 'quantity_produced', 'assignment');
+
+-- Create prep_list_item_events table (append-only history of changes to prep
+-- tasks). Tasks are deleted when a list is regenerated, so events keep the
+-- task's id and name rather than a foreign key to it.
+CREATE TABLE public.prep_list_item_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    prep_list_id UUID REFERENCES public.prep_lists(id) ON DELETE CASCADE NOT NULL,
+    prep_list_item_id UUID NOT NULL,
+    item_name TEXT NOT NULL,
+    event_type prep_event_type NOT NULL,
+    from_value TEXT,
+    to_value TEXT,
+    staff_member_id UUID REFERENCES public.staff_members(id) ON DELETE SET NULL,
+    user_id UUID, -- Session that made the change; null for the service role
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prep_list_item_events_list ON public.prep_list_item_events (prep_list_id, created_at DESC);
+CREATE INDEX idx_prep_list_item_events_item ON public.prep_list_item_events (prep_list_item_id, created_at DESC);
+
+-- Enable RLS on prep_list_item_events (written only by the trigger below)
+ALTER TABLE public.prep_list_item_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can read the history
+CREATE POLICY "Admins can read prep list item events"
+ON public.prep_list_item_events
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Events are never edited once written
+CREATE OR REPLACE FUNCTION public.prevent_prep_event_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Prep list item events are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_prep_list_item_events_update
+    BEFORE UPDATE ON public.prep_list_item_events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_prep_event_update();
+
+-- Log status changes, quantity edits and reassignments with who made them.
+-- Runs after the row is written so it sees the claim the attribution trigger made.
+CREATE OR REPLACE FUNCTION public.log_prep_list_item_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    staff UUID := public.current_staff_member();
+    task_name TEXT;
+BEGIN
+    SELECT COALESCE(
+        (SELECT name FROM public.menu_items WHERE id = NEW.menu_item_id),
+        (SELECT name FROM public.prep_components WHERE id = NEW.component_id),
+        'Unknown'
+    ) INTO task_name;
+
+    INSERT INTO public.prep_list_item_events (
+        prep_list_id, prep_list_item_id, item_name, event_type, from_value, to_value, staff_member_id, user_id
+    )
+    SELECT NEW.prep_list_id, NEW.id, task_name, change.event_type, change.from_value, change.to_value, staff, auth.uid()
+    FROM (
+        VALUES
+            ('status'::prep_event_type, OLD.status::TEXT, NEW.status::TEXT),
+            ('quantity_needed'::prep_event_type, OLD.quantity_needed::TEXT, NEW.quantity_needed::TEXT),
+            ('quantity_produced'::prep_event_type, OLD.quantity_produced::TEXT, NEW.quantity_produced::TEXT),
+            ('assignment'::prep_event_type, OLD.assigned_to::TEXT, NEW.assigned_to::TEXT)
+    ) AS change (event_type, from_value, to_value)
+    WHERE change.from_value IS DISTINCT FROM change.to_value;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_prep_list_items_changes
+    AFTER UPDATE ON public.prep_list_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_prep_list_item_changes();
@@ -0,0 +1,114 @@
+-- Time prep tasks from start to finish, leaving out pauses. The timer columns
+-- are kept by the trigger below; clients only change status and is_paused.
+ALTER TABLE public.prep_list_items
+ADD COLUMN started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN timer_started_at TIMESTAMP WITH TIME ZONE, -- Start of the running stretch; null while paused or stopped
+ADD COLUMN active_seconds INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN is_paused BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN estimated_minutes NUMERIC(8,1); -- Expected labor from past timings, set by the generator
+
+-- Create prep_task_durations table (how long finished tasks took, per item and cook).
+-- Kept apart from the tasks so timings survive a list being regenerated.
+CREATE TABLE public.prep_task_durations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    prep_list_item_id UUID UNIQUE REFERENCES public.prep_list_items(id) ON DELETE SET NULL,
+    menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    component_id UUID REFERENCES public.prep_components(id) ON DELETE CASCADE,
+    staff_member_id UUID REFERENCES public.staff_members(id) ON DELETE SET NULL,
+    prep_date DATE NOT NULL,
+    quantity NUMERIC(10,2) NOT NULL,
+    active_seconds INTEGER NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT prep_task_durations_target_check CHECK (
+        (menu_item_id IS NOT NULL) <> (component_id IS NOT NULL)
+    )
+);
+
+CREATE INDEX idx_prep_task_durations_menu_item ON public.prep_task_durations (menu_item_id, completed_at DESC);
+CREATE INDEX idx_prep_task_durations_component ON public.prep_task_durations (component_id, completed_at DESC);
+CREATE INDEX idx_prep_task_durations_staff ON public.prep_task_durations (staff_member_id, completed_at DESC);
+
+-- Enable RLS on prep_task_durations (written only by the trigger below)
+ALTER TABLE public.prep_task_durations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can read labor timings
+CREATE POLICY "Admins can read prep task durations"
+ON public.prep_task_durations
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Run the task timer: starting or resuming opens a running stretch, pausing or
+-- finishing adds it to the total, and reopening starts the clock over
+CREATE OR REPLACE FUNCTION public.track_prep_list_item_time()
+RETURNS TRIGGER AS $$
+DECLARE
+    running INTEGER := COALESCE(EXTRACT(EPOCH FROM now() - OLD.timer_started_at)::INTEGER, 0);
+BEGIN
+    NEW.started_at := OLD.started_at;
+    NEW.timer_started_at := OLD.timer_started_at;
+    NEW.active_seconds := OLD.active_seconds;
+
+    IF NEW.status = 'open' THEN
+        NEW.started_at := NULL;
+        NEW.timer_started_at := NULL;
+        NEW.active_seconds := 0;
+        NEW.is_paused := false;
+    ELSIF NEW.status = 'completed' THEN
+        NEW.active_seconds := OLD.active_seconds + running;
+        NEW.timer_started_at := NULL;
+        NEW.is_paused := false;
+    ELSE
+        -- Picking a task back up always resumes it
+        IF OLD.status <> 'in_progress' THEN
+            NEW.is_paused := false;
+        END IF;
+
+        IF NEW.is_paused THEN
+            NEW.active_seconds := OLD.active_seconds + running;
+            NEW.timer_started_at := NULL;
+        ELSIF OLD.timer_started_at IS NULL THEN
+            NEW.timer_started_at := now();
+            NEW.started_at := COALESCE(OLD.started_at, now());
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER track_prep_list_items_time
+    BEFORE UPDATE ON public.prep_list_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.track_prep_list_item_time();
+
+-- Record how long a finished task took, and drop it again if the task is reopened
+CREATE OR REPLACE FUNCTION public.record_prep_task_duration()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'completed' AND NEW.active_seconds > 0 THEN
+        INSERT INTO public.prep_task_durations (
+            prep_list_item_id, menu_item_id, component_id, staff_member_id,
+            prep_date, quantity, active_seconds, completed_at
+        )
+        SELECT NEW.id, NEW.menu_item_id, NEW.component_id, NEW.completed_by,
+            pl.prep_date, COALESCE(NEW.quantity_produced, NEW.quantity_needed),
+            NEW.active_seconds, COALESCE(NEW.completed_at, now())
+        FROM public.prep_lists pl
+        WHERE pl.id = NEW.prep_list_id
+        ON CONFLICT (prep_list_item_id) DO UPDATE
+        SET staff_member_id = EXCLUDED.staff_member_id,
+            quantity = EXCLUDED.quantity,
+            active_seconds = EXCLUDED.active_seconds,
+            completed_at = EXCLUDED.completed_at;
+    ELSIF OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+        DELETE FROM public.prep_task_durations WHERE prep_list_item_id = NEW.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_prep_list_items_duration
+    AFTER UPDATE OF status, quantity_produced, completed_by ON public.prep_list_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_prep_task_duration();
@@ -0,0 +1,42 @@
+-- Create alias source enum
+CREATE TYPE public.menu_item_alias_source AS ENUM ('manual_match', 'admin');
+
+-- Create menu_item_aliases table (POS item names mapped to menu items, so a
+-- name matched by hand once is matched the same way on every later upload)
+CREATE TABLE public.menu_item_aliases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    alias TEXT NOT NULL,
+    -- Lookup key: case and spacing differences between reports don't matter
+    alias_key TEXT GENERATED ALWAYS AS (lower(regexp_replace(btrim(alias), '\s+', ' ', 'g'))) STORED,
+    menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE NOT NULL,
+    source menu_item_alias_source NOT NULL DEFAULT 'admin',
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT menu_item_aliases_alias_key_key UNIQUE (alias_key),
+    CONSTRAINT menu_item_aliases_alias_check CHECK (btrim(alias) <> '')
+);
+
+CREATE INDEX idx_menu_item_aliases_menu_item ON public.menu_item_aliases (menu_item_id);
+
+-- Enable RLS on menu_item_aliases
+ALTER TABLE public.menu_item_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read aliases
+CREATE POLICY "Anyone can read menu item aliases"
+ON public.menu_item_aliases
+FOR SELECT
+USING (true);
+
+-- Policy: Admins can manage aliases
+CREATE POLICY "Admins can manage menu item aliases"
+ON public.menu_item_aliases
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_menu_item_aliases_updated_at
+    BEFORE UPDATE ON public.menu_item_aliases
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
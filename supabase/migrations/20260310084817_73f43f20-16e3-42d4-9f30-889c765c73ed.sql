@@ -0,0 +1,53 @@
+-- Create ignore rule match type enum
+CREATE TYPE public.sales_ignore_match_type AS ENUM ('exact', 'prefix', 'regex');
+
+-- Create sales_ignore_rules table (POS lines that aren't dishes, set aside
+-- after a sales report is parsed instead of being saved as sales)
+CREATE TABLE public.sales_ignore_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    pattern TEXT NOT NULL,
+    match_type sales_ignore_match_type NOT NULL DEFAULT 'exact',
+    note TEXT, -- Why the line is ignored, e.g. "Modifier"
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT sales_ignore_rules_pattern_key UNIQUE (match_type, pattern),
+    CONSTRAINT sales_ignore_rules_pattern_check CHECK (btrim(pattern) <> '')
+);
+
+-- Enable RLS on sales_ignore_rules
+ALTER TABLE public.sales_ignore_rules ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read ignore rules
+CREATE POLICY "Anyone can read sales ignore rules"
+ON public.sales_ignore_rules
+FOR SELECT
+USING (true);
+
+-- Policy: Admins can manage ignore rules
+CREATE POLICY "Admins can manage sales ignore rules"
+ON public.sales_ignore_rules
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sales_ignore_rules_updated_at
+    BEFORE UPDATE ON public.sales_ignore_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Start with the lines the sales parser used to skip
+INSERT INTO public.sales_ignore_rules (pattern, match_type, note) VALUES
+    ('ADD SALMON', 'exact', 'Modifier'),
+    ('ADD SHRIMP', 'exact', 'Modifier'),
+    ('ADD STEAK', 'exact', 'Modifier'),
+    ('GRILLED SALMON', 'exact', 'Modifier'),
+    ('GRILLED SHRIMP', 'exact', 'Modifier'),
+    ('SALAD OUT FIRST', 'exact', 'Service instruction'),
+    ('SALAD WITH MEAL', 'exact', 'Service instruction'),
+    ('Open Food', 'exact', 'Open item'),
+    ('You Choose', 'exact', 'Open item'),
+    ('Birthday Dessert', 'exact', 'Open item'),
+    ('^(half|full|small|large|cup|bowl)$', 'regex', 'Size modifier on its own');
@@ -0,0 +1,70 @@
+-- Create sales_modifiers table (POS modifier lines like "ADD SALMON" mapped to
+-- the dish or prep component each one uses up)
+CREATE TABLE public.sales_modifiers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    -- Lookup key: case and spacing differences between reports don't matter
+    name_key TEXT GENERATED ALWAYS AS (lower(regexp_replace(btrim(name), '\s+', ' ', 'g'))) STORED,
+    menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    component_id UUID REFERENCES public.prep_components(id) ON DELETE CASCADE,
+    quantity_per_unit NUMERIC NOT NULL DEFAULT 1, -- Dish portions or component units per modifier sold
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT sales_modifiers_name_key_key UNIQUE (name_key),
+    CONSTRAINT sales_modifiers_name_check CHECK (btrim(name) <> ''),
+    CONSTRAINT sales_modifiers_quantity_check CHECK (quantity_per_unit > 0),
+    CONSTRAINT sales_modifiers_target_check CHECK ((menu_item_id IS NULL) <> (component_id IS NULL))
+);
+
+-- Enable RLS on sales_modifiers
+ALTER TABLE public.sales_modifiers ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read modifier mappings
+CREATE POLICY "Anyone can read sales modifiers"
+ON public.sales_modifiers
+FOR SELECT
+USING (true);
+
+-- Policy: Admins can manage modifier mappings
+CREATE POLICY "Admins can manage sales modifiers"
+ON public.sales_modifiers
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sales_modifiers_updated_at
+    BEFORE UPDATE ON public.sales_modifiers
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create modifier_sales table (modifiers sold per day, saved alongside sales_data)
+CREATE TABLE public.modifier_sales (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    modifier_id UUID REFERENCES public.sales_modifiers(id) ON DELETE CASCADE NOT NULL,
+    sales_date DATE NOT NULL,
+    quantity_sold INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT modifier_sales_modifier_date_key UNIQUE (modifier_id, sales_date)
+);
+
+CREATE INDEX idx_modifier_sales_date ON public.modifier_sales (sales_date);
+
+-- Enable RLS on modifier_sales
+ALTER TABLE public.modifier_sales ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read modifier sales
+CREATE POLICY "Anyone can read modifier sales"
+ON public.modifier_sales
+FOR SELECT
+USING (true);
+
+-- Policy: Admins can manage modifier sales
+CREATE POLICY "Admins can manage modifier sales"
+ON public.modifier_sales
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
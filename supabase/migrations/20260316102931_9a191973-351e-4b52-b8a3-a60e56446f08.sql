@@ -0,0 +1,39 @@
+-- Create sales report parser enum
+CREATE TYPE public.sales_report_parser AS ENUM ('pos_report', 'ai');
+
+-- Create sales_uploads table (every sales report uploaded, archived in the
+-- sales-files bucket so it can be parsed again with newer rules)
+CREATE TABLE public.sales_uploads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_path TEXT NOT NULL UNIQUE, -- Object path in the sales-files bucket
+    file_name TEXT NOT NULL, -- Name of the file as uploaded
+    sales_date DATE NOT NULL,
+    parser sales_report_parser NOT NULL,
+    parse_result JSONB NOT NULL DEFAULT '{}'::jsonb, -- Lines as last parsed or saved: items, modifiers, ignored
+    line_count INTEGER NOT NULL DEFAULT 0,
+    matched_count INTEGER NOT NULL DEFAULT 0,
+    saved_at TIMESTAMP WITH TIME ZONE, -- When its sales were last saved to sales_data
+    reparsed_at TIMESTAMP WITH TIME ZONE,
+    uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    uploaded_by_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sales_uploads_sales_date ON public.sales_uploads (sales_date);
+
+-- Enable RLS on sales_uploads
+ALTER TABLE public.sales_uploads ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins can manage sales uploads (the files themselves are admin-only too)
+CREATE POLICY "Admins can manage sales uploads"
+ON public.sales_uploads
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sales_uploads_updated_at
+    BEFORE UPDATE ON public.sales_uploads
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
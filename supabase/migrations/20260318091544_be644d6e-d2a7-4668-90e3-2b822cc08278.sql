@@ -0,0 +1,3 @@
+-- Allow prep quantities to come straight from an absolute par override when
+-- no closing count was taken
+ALTER TYPE public.prep_calculation_method ADD VALUE IF NOT EXISTS 'par_override';
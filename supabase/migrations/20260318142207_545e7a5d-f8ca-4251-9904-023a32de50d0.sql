@@ -0,0 +1,166 @@
+-- Date of the last closing count that reconciled a lot; sales on or before it
+-- are already reflected in the count
+ALTER TABLE public.prepped_product
+ADD COLUMN counted_on DATE;
+
+-- Take what was used off the open prepped product of a dish or component,
+-- from the lots still in date that day, soonest use-by first. A negative
+-- quantity gives it back, latest use-by first, as when a day's sales are
+-- corrected down. A lot with no shelf life only lasts the day it was prepped.
+CREATE OR REPLACE FUNCTION public.draw_down_prepped_product(
+    _menu_item_id UUID,
+    _component_id UUID,
+    _sales_date DATE,
+    _quantity NUMERIC
+)
+RETURNS VOID AS $$
+DECLARE
+    lot RECORD;
+    left_over NUMERIC := abs(_quantity);
+    step NUMERIC;
+BEGIN
+    IF _quantity = 0 THEN
+        RETURN;
+    END IF;
+
+    FOR lot IN
+        SELECT id, quantity, quantity_remaining
+        FROM public.prepped_product
+        WHERE (menu_item_id = _menu_item_id OR component_id = _component_id)
+          AND used_at IS NULL
+          AND discarded_at IS NULL
+          AND prepped_on <= _sales_date
+          AND COALESCE(expires_on, prepped_on) >= _sales_date
+          AND (counted_on IS NULL OR counted_on < _sales_date)
+        ORDER BY
+            CASE WHEN _quantity > 0 THEN COALESCE(expires_on, prepped_on) END ASC,
+            CASE WHEN _quantity < 0 THEN COALESCE(expires_on, prepped_on) END DESC,
+            prepped_on,
+            id
+        FOR UPDATE
+    LOOP
+        EXIT WHEN left_over <= 0;
+        IF _quantity > 0 THEN
+            step := LEAST(left_over, lot.quantity_remaining);
+            UPDATE public.prepped_product SET quantity_remaining = quantity_remaining - step WHERE id = lot.id;
+        ELSE
+            step := LEAST(left_over, lot.quantity - lot.quantity_remaining);
+            UPDATE public.prepped_product SET quantity_remaining = quantity_remaining + step WHERE id = lot.id;
+        END IF;
+        left_over := left_over - step;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.draw_down_prepped_product(UUID, UUID, DATE, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Dishes sold use up their own prepped product and that of the components
+-- they're built from
+CREATE OR REPLACE FUNCTION public.draw_down_dish_sales(_menu_item_id UUID, _sales_date DATE, _quantity NUMERIC)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM public.draw_down_prepped_product(_menu_item_id, NULL, _sales_date, _quantity);
+    PERFORM public.draw_down_prepped_product(NULL, mic.component_id, _sales_date, _quantity * mic.quantity_per_portion)
+    FROM public.menu_item_components mic
+    WHERE mic.menu_item_id = _menu_item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.draw_down_dish_sales(UUID, DATE, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Keep prepped product in step with sales as they're saved, re-saved or removed
+CREATE OR REPLACE FUNCTION public.sync_prepped_product_sales()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.menu_item_id = OLD.menu_item_id AND NEW.sales_date = OLD.sales_date THEN
+        PERFORM public.draw_down_dish_sales(NEW.menu_item_id, NEW.sales_date, NEW.quantity_sold - OLD.quantity_sold);
+        RETURN NULL;
+    END IF;
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM public.draw_down_dish_sales(OLD.menu_item_id, OLD.sales_date, -OLD.quantity_sold);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM public.draw_down_dish_sales(NEW.menu_item_id, NEW.sales_date, NEW.quantity_sold);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_sales_data_prepped_product
+    AFTER INSERT OR UPDATE OR DELETE ON public.sales_data
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_prepped_product_sales();
+
+-- Modifiers sold use up the dish or component they're mapped to
+CREATE OR REPLACE FUNCTION public.draw_down_modifier_sales(_modifier_id UUID, _sales_date DATE, _quantity NUMERIC)
+RETURNS VOID AS $$
+DECLARE
+    modifier RECORD;
+BEGIN
+    SELECT menu_item_id, component_id, quantity_per_unit INTO modifier
+    FROM public.sales_modifiers
+    WHERE id = _modifier_id;
+
+    IF modifier.menu_item_id IS NOT NULL THEN
+        PERFORM public.draw_down_dish_sales(modifier.menu_item_id, _sales_date, _quantity * modifier.quantity_per_unit);
+    ELSIF modifier.component_id IS NOT NULL THEN
+        PERFORM public.draw_down_prepped_product(
+            NULL, modifier.component_id, _sales_date, _quantity * modifier.quantity_per_unit
+        );
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.draw_down_modifier_sales(UUID, DATE, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_prepped_product_modifier_sales()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.modifier_id = OLD.modifier_id AND NEW.sales_date = OLD.sales_date THEN
+        PERFORM public.draw_down_modifier_sales(NEW.modifier_id, NEW.sales_date, NEW.quantity_sold - OLD.quantity_sold);
+        RETURN NULL;
+    END IF;
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM public.draw_down_modifier_sales(OLD.modifier_id, OLD.sales_date, -OLD.quantity_sold);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM public.draw_down_modifier_sales(NEW.modifier_id, NEW.sales_date, NEW.quantity_sold);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_modifier_sales_prepped_product
+    AFTER INSERT OR UPDATE OR DELETE ON public.modifier_sales
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_prepped_product_modifier_sales();
+
+-- A closing count is what's really left of a dish: spread it over the lots
+-- prepped by then, newest first, and treat the older ones as used up
+CREATE OR REPLACE FUNCTION public.reconcile_prepped_product_count()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.prepped_product pp
+    SET quantity_remaining = LEAST(pp.quantity, GREATEST(0, NEW.quantity - newer.counted_before)),
+        counted_on = NEW.count_date
+    FROM (
+        SELECT id,
+               COALESCE(SUM(quantity) OVER (
+                   ORDER BY prepped_on DESC, id DESC
+                   ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+               ), 0) AS counted_before
+        FROM public.prepped_product
+        WHERE menu_item_id = NEW.menu_item_id
+          AND prepped_on <= NEW.count_date
+          AND used_at IS NULL
+          AND discarded_at IS NULL
+    ) newer
+    WHERE pp.id = newer.id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reconcile_on_hand_counts_prepped_product
+    AFTER INSERT OR UPDATE OF quantity ON public.on_hand_counts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reconcile_prepped_product_count();
@@ -0,0 +1,66 @@
+-- Prep list history outlives its list: events keep the list's id like they
+-- keep the task's, so deleting or regenerating a list doesn't erase them
+ALTER TABLE public.prep_list_item_events
+DROP CONSTRAINT prep_list_item_events_prep_list_id_fkey;
+
+-- Log tasks being added to and removed from a list too
+ALTER TYPE public.prep_event_type ADD VALUE IF NOT EXISTS 'created';
+ALTER TYPE public.prep_event_type ADD VALUE IF NOT EXISTS 'deleted';
+
+-- Log new and removed tasks with their quantity, and status changes, quantity
+-- edits and reassignments with who made them. Runs after the row is written so
+-- it sees the claim the attribution trigger made.
+CREATE OR REPLACE FUNCTION public.log_prep_list_item_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    staff UUID := public.current_staff_member();
+    task public.prep_list_items;
+    task_name TEXT;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        task := OLD;
+    ELSE
+        task := NEW;
+    END IF;
+
+    SELECT COALESCE(
+        (SELECT name FROM public.menu_items WHERE id = task.menu_item_id),
+        (SELECT name FROM public.prep_components WHERE id = task.component_id),
+        'Unknown'
+    ) INTO task_name;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO public.prep_list_item_events (
+            prep_list_id, prep_list_item_id, item_name, event_type, from_value, to_value, staff_member_id, user_id
+        )
+        VALUES (task.prep_list_id, task.id, task_name, 'created', NULL, task.quantity_needed::TEXT, staff, auth.uid());
+    ELSIF TG_OP = 'DELETE' THEN
+        INSERT INTO public.prep_list_item_events (
+            prep_list_id, prep_list_item_id, item_name, event_type, from_value, to_value, staff_member_id, user_id
+        )
+        VALUES (task.prep_list_id, task.id, task_name, 'deleted', task.quantity_needed::TEXT, NULL, staff, auth.uid());
+    ELSE
+        INSERT INTO public.prep_list_item_events (
+            prep_list_id, prep_list_item_id, item_name, event_type, from_value, to_value, staff_member_id, user_id
+        )
+        SELECT NEW.prep_list_id, NEW.id, task_name, change.event_type, change.from_value, change.to_value, staff, auth.uid()
+        FROM (
+            VALUES
+                ('status'::prep_event_type, OLD.status::TEXT, NEW.status::TEXT),
+                ('quantity_needed'::prep_event_type, OLD.quantity_needed::TEXT, NEW.quantity_needed::TEXT),
+                ('quantity_produced'::prep_event_type, OLD.quantity_produced::TEXT, NEW.quantity_produced::TEXT),
+                ('assignment'::prep_event_type, OLD.assigned_to::TEXT, NEW.assigned_to::TEXT)
+        ) AS change (event_type, from_value, to_value)
+        WHERE change.from_value IS DISTINCT FROM change.to_value;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER log_prep_list_items_changes ON public.prep_list_items;
+
+CREATE TRIGGER log_prep_list_items_changes
+    AFTER INSERT OR UPDATE OR DELETE ON public.prep_list_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_prep_list_item_changes();
@@ -0,0 +1,43 @@
+-- The kitchen tablet signs in anonymously, so an anonymous session must never
+-- count as an admin, whatever user_roles says
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles r
+    JOIN auth.users u ON u.id = r.user_id
+    WHERE r.user_id = _user_id
+      AND r.role = _role
+      AND NOT u.is_anonymous
+  )
+$$;
+
+-- Whether anyone has been made an admin yet
+CREATE OR REPLACE FUNCTION public.admin_exists()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE role = 'admin')
+$$;
+
+-- Only the first admin can grant themselves a role, from a real account.
+-- After that roles are granted by an admin or the service role.
+DROP POLICY "Users can insert own roles" ON public.user_roles;
+
+CREATE POLICY "First admin can insert own role"
+ON public.user_roles
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = user_id
+    AND NOT COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false)
+    AND NOT public.admin_exists()
+);
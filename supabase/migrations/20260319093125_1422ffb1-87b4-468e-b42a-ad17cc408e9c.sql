@@ -0,0 +1,61 @@
+-- Closing counts decide how much gets prepped, so they need a signed-in cook
+-- instead of any client
+DROP POLICY "Anyone can insert on-hand counts" ON public.on_hand_counts;
+DROP POLICY "Anyone can update on-hand counts" ON public.on_hand_counts;
+
+CREATE POLICY "Signed-in staff can insert on-hand counts"
+ON public.on_hand_counts
+FOR INSERT
+TO authenticated
+WITH CHECK (public.current_staff_member() IS NOT NULL);
+
+CREATE POLICY "Signed-in staff can update on-hand counts"
+ON public.on_hand_counts
+FOR UPDATE
+TO authenticated
+USING (public.current_staff_member() IS NOT NULL)
+WITH CHECK (public.current_staff_member() IS NOT NULL);
+
+-- Attribute changes to the signed-in cook. Cooks can only change a task's
+-- status, what was made and who has it; everything else, including who
+-- finished it and when, is kept or set here. Starting a task claims it,
+-- finishing it records who and when, and reopening clears the finish.
+CREATE OR REPLACE FUNCTION public.attribute_prep_list_item_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    staff UUID := public.current_staff_member();
+BEGIN
+    IF auth.role() = 'authenticated' AND NOT public.has_role(auth.uid(), 'admin') THEN
+        NEW := jsonb_populate_record(OLD, jsonb_build_object(
+            'status', NEW.status,
+            'is_paused', NEW.is_paused,
+            'quantity_produced', NEW.quantity_produced,
+            'assigned_to', NEW.assigned_to
+        ));
+    END IF;
+
+    IF NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'completed' THEN
+        NEW.completed_by := COALESCE(staff, NEW.completed_by);
+        NEW.completed_at := now();
+    ELSE
+        NEW.completed_by := NULL;
+        NEW.completed_at := NULL;
+        IF NEW.status = 'in_progress' AND staff IS NOT NULL THEN
+            NEW.assigned_to := staff;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Run on every update, not just status changes, so other columns are guarded too
+DROP TRIGGER attribute_prep_list_items_status ON public.prep_list_items;
+
+CREATE TRIGGER attribute_prep_list_items_status
+    BEFORE UPDATE ON public.prep_list_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.attribute_prep_list_item_status();
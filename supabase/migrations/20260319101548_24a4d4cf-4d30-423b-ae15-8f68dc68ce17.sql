@@ -0,0 +1,39 @@
+-- Record every finished task, timed or not, so prep_task_durations is the
+-- record of who made what. Labor estimates leave out the untimed ones.
+CREATE OR REPLACE FUNCTION public.record_prep_task_duration()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'completed' THEN
+        INSERT INTO public.prep_task_durations (
+            prep_list_item_id, menu_item_id, component_id, staff_member_id,
+            prep_date, quantity, active_seconds, completed_at
+        )
+        SELECT NEW.id, NEW.menu_item_id, NEW.component_id, NEW.completed_by,
+            pl.prep_date, COALESCE(NEW.quantity_produced, NEW.quantity_needed),
+            NEW.active_seconds, COALESCE(NEW.completed_at, now())
+        FROM public.prep_lists pl
+        WHERE pl.id = NEW.prep_list_id
+        ON CONFLICT (prep_list_item_id) DO UPDATE
+        SET staff_member_id = EXCLUDED.staff_member_id,
+            quantity = EXCLUDED.quantity,
+            active_seconds = EXCLUDED.active_seconds,
+            completed_at = EXCLUDED.completed_at;
+    ELSIF OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+        DELETE FROM public.prep_task_durations WHERE prep_list_item_id = NEW.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill the untimed tasks finished before this
+INSERT INTO public.prep_task_durations (
+    prep_list_item_id, menu_item_id, component_id, staff_member_id,
+    prep_date, quantity, active_seconds, completed_at
+)
+SELECT pli.id, pli.menu_item_id, pli.component_id, pli.completed_by,
+    pl.prep_date, COALESCE(pli.quantity_produced, pli.quantity_needed),
+    pli.active_seconds, COALESCE(pli.completed_at, pli.created_at)
+FROM public.prep_list_items pli
+JOIN public.prep_lists pl ON pl.id = pli.prep_list_id
+WHERE pli.status = 'completed'
+ON CONFLICT (prep_list_item_id) DO NOTHING;